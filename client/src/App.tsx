@@ -9,6 +9,9 @@ import BulkSend from "@/pages/bulk-send";
 import Navigation from "@/components/navigation";
 // 1. IMPORT THE NEW PAGE
 import BounceDashboard from "@/pages/bounce-dashboard";
+import Scheduled from "@/pages/scheduled";
+import History from "@/pages/history";
+import Inbox from "@/pages/inbox";
 
 function Router() {
   return (
@@ -20,6 +23,9 @@ function Router() {
         <Route path="/bulk-send" component={BulkSend} />
         {/* 2. ADD THE NEW ROUTE HERE */}
         <Route path="/bounce-dashboard" component={BounceDashboard} />
+        <Route path="/scheduled" component={Scheduled} />
+        <Route path="/history" component={History} />
+        <Route path="/inbox" component={Inbox} />
         <Route component={NotFound} />
       </Switch>
     </div>
@@ -0,0 +1,260 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle, Loader2, Pencil, Power, PlugZap, Trash2, XCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { zohoRegionLabels, type PublicEmailAccount, type TokenStatus, type UpdateAccount, type ZohoRegion } from "@shared/schema";
+import RegionSelect from "./RegionSelect";
+
+type TestResult = { success: boolean; message: string; subAccounts: { emailAddress: string }[] };
+
+type PendingAction = { kind: "delete" | "disable"; account: PublicEmailAccount };
+
+const tokenBadge: Record<TokenStatus['state'], { label: string; className: string }> = {
+  none: { label: "Not fetched", className: "bg-slate-100 text-slate-700" },
+  valid: { label: "Valid", className: "bg-green-100 text-green-800" },
+  expiring: { label: "Expiring", className: "bg-amber-100 text-amber-800" },
+  expired: { label: "Expired", className: "bg-slate-100 text-slate-700" },
+  refreshing: { label: "Refreshing", className: "bg-blue-100 text-blue-800" },
+  error: { label: "Error", className: "bg-red-100 text-red-800" },
+};
+
+const emptyEdit = { name: "", fromAddress: "", client_id: "", client_secret: "", refresh_token: "", region: "com" as ZohoRegion };
+
+// Lists the primary accounts with edit, test, enable/disable and delete actions.
+// Deleting and disabling ask for confirmation first.
+export default function AccountList({ accounts }: { accounts: PublicEmailAccount[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<PublicEmailAccount | null>(null);
+  const [editValues, setEditValues] = useState(emptyEdit);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, TestResult>>({});
+
+  const { data: tokenStatuses } = useQuery<TokenStatus[]>({
+    queryKey: ['/api/accounts/token-status'],
+    refetchInterval: 30000,
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Account action failed", description: error.message, variant: "destructive" });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const changes: UpdateAccount = {
+        name: editValues.name.trim() || undefined,
+        fromAddress: editValues.fromAddress.trim() || undefined,
+        client_id: editValues.client_id.trim() || undefined,
+        client_secret: editValues.client_secret.trim() || undefined,
+        refresh_token: editValues.refresh_token.trim() || undefined,
+        region: editValues.region,
+      };
+      const res = await apiRequest('PUT', `/api/accounts/${editing?.account_key}`, changes);
+      return res.json() as Promise<PublicEmailAccount>;
+    },
+    onSuccess: (account) => {
+      toast({ title: "Account updated", description: `${account.name} has been saved.` });
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ kind, account }: { kind: "delete" | "disable" | "enable"; account: PublicEmailAccount }) => {
+      const res = kind === "delete"
+        ? await apiRequest('DELETE', `/api/accounts/${account.account_key}`)
+        : await apiRequest('POST', `/api/accounts/${account.account_key}/${kind}`);
+      return res.json();
+    },
+    onSuccess: (_data, { kind, account }) => {
+      toast({ title: kind === "delete" ? "Account deleted" : `Account ${kind}d`, description: account.name });
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+      setPending(null);
+    },
+    onError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (account: PublicEmailAccount) => {
+      const res = await apiRequest('POST', `/api/accounts/${account.account_key}/test`);
+      return res.json() as Promise<TestResult>;
+    },
+    onSuccess: (result, account) => {
+      setTestResults(current => ({ ...current, [account.account_key]: result }));
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts/token-status'] });
+      toast({
+        title: result.success ? "Credentials are valid" : "Credentials failed",
+        description: result.success ? `${result.subAccounts.length} sub-account(s) found for ${account.name}.` : result.message,
+        variant: result.success ? undefined : "destructive",
+      });
+    },
+    onError,
+  });
+
+  const openEdit = (account: PublicEmailAccount) => {
+    setEditValues({ ...emptyEdit, name: account.name, fromAddress: account.fromAddress, client_id: account.client_id, region: account.region });
+    setEditing(account);
+  };
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Default Sender</TableHead>
+            <TableHead>Region</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Token</TableHead>
+            <TableHead>Last Test</TableHead>
+            <TableHead></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {accounts.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground">No accounts yet.</TableCell>
+            </TableRow>
+          ) : (
+            accounts.map(account => {
+              const test = testResults[account.account_key];
+              const token = tokenStatuses?.find(status => status.accountKey === account.account_key);
+              return (
+                <TableRow key={account.account_key}>
+                  <TableCell>
+                    <div className="font-medium">{account.name}</div>
+                    <div className="text-xs font-mono text-muted-foreground">{account.account_key}</div>
+                  </TableCell>
+                  <TableCell>{account.fromAddress}</TableCell>
+                  <TableCell className="text-sm">{zohoRegionLabels[account.region]}</TableCell>
+                  <TableCell>
+                    <Badge className={account.enabled ? "bg-green-100 text-green-800" : "bg-slate-100 text-slate-700"}>
+                      {account.enabled ? "Enabled" : "Disabled"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {token ? (
+                      <Badge
+                        className={tokenBadge[token.state].className}
+                        title={token.lastError ?? (token.expiresAt ? `Expires ${new Date(token.expiresAt).toLocaleTimeString()}` : undefined)}
+                      >
+                        {tokenBadge[token.state].label}
+                      </Badge>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {test ? (
+                      <span className={`flex items-center gap-1 ${test.success ? "text-green-700" : "text-red-700"}`}>
+                        {test.success ? <CheckCircle className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+                        {test.success ? `${test.subAccounts.length} sub-accounts` : "Failed"}
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-1 whitespace-nowrap">
+                    <Button type="button" variant="outline" size="sm" disabled={testMutation.isPending && testMutation.variables?.account_key === account.account_key} onClick={() => testMutation.mutate(account)}>
+                      {testMutation.isPending && testMutation.variables?.account_key === account.account_key
+                        ? <Loader2 className="h-3 w-3 animate-spin" />
+                        : <><PlugZap className="h-3 w-3 mr-1" /> Test</>}
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" onClick={() => openEdit(account)}>
+                      <Pencil className="h-3 w-3 mr-1" /> Edit
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => account.enabled ? setPending({ kind: "disable", account }) : actionMutation.mutate({ kind: "enable", account })}
+                    >
+                      <Power className="h-3 w-3 mr-1" /> {account.enabled ? "Disable" : "Enable"}
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" className="text-red-600 hover:bg-red-50" onClick={() => setPending({ kind: "delete", account })}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Account</DialogTitle>
+            <DialogDescription>Leave the secret fields blank to keep the stored credentials.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Account Name</Label>
+              <Input value={editValues.name} onChange={(e) => setEditValues({ ...editValues, name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Default Sender</Label>
+              <Input value={editValues.fromAddress} onChange={(e) => setEditValues({ ...editValues, fromAddress: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Zoho Region</Label>
+              <RegionSelect value={editValues.region} onValueChange={(region) => setEditValues({ ...editValues, region })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Client ID</Label>
+              <Input value={editValues.client_id} onChange={(e) => setEditValues({ ...editValues, client_id: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Client Secret</Label>
+              <Input type="password" placeholder="Unchanged" value={editValues.client_secret} onChange={(e) => setEditValues({ ...editValues, client_secret: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Refresh Token</Label>
+              <Input type="password" placeholder="Unchanged" value={editValues.refresh_token} onChange={(e) => setEditValues({ ...editValues, refresh_token: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="button" disabled={updateMutation.isPending} onClick={() => updateMutation.mutate()}>
+              {updateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pending?.kind === "delete" ? `Delete ${pending.account.name}?` : `Disable ${pending?.account.name}?`}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.kind === "delete"
+                ? "The account and its stored credentials are removed. Campaigns and scheduled sends that use it will fail."
+                : "Nothing can be sent from this account until it is enabled again. Running campaigns will fail their remaining sends."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={pending?.kind === "delete" ? "bg-red-600 hover:bg-red-700" : undefined}
+              onClick={() => pending && actionMutation.mutate(pending)}
+            >
+              {pending?.kind === "delete" ? "Delete" : "Disable"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
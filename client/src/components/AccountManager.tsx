@@ -3,42 +3,34 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { z } from "zod";
-import { Plus, Loader2, Mail, Key } from "lucide-react";
+import { Plus, Loader2, Mail, Key, ExternalLink, RefreshCw } from "lucide-react";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { type EmailAccount } from "@shared/schema";
+import { zohoRegionSchema, type PublicEmailAccount } from "@shared/schema";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
+import RateLimitManager from "./RateLimitManager";
+import AccountList from "./AccountList";
+import ZohoConnect from "./ZohoConnect";
+import RegionSelect from "./RegionSelect";
+import SubAccountTable, { zohoSubAccountSchema, type ZohoSubAccount } from "./SubAccountTable";
 
-// NEW: Schema updated to remove the 'fromAddress' field.
+// The default sender is optional; the server uses the first Zoho sub-account when it is blank.
 const addAccountSchema = z.object({
   name: z.string().min(1, "Account name is required"),
   client_id: z.string().min(1, "Client ID is required"),
   client_secret: z.string().min(1, "Client Secret is required"),
   refresh_token: z.string().min(1, "Refresh Token is required"),
+  fromAddress: z.union([z.string().email("Enter a valid email address"), z.literal("")]).optional(),
+  region: zohoRegionSchema,
 });
 
 type AddAccount = z.infer<typeof addAccountSchema>;
 
-// Schema for Zoho API response (no changes here)
-const zohoSubAccountSchema = z.object({
-  account_key: z.string(),
-  emailAddress: z.string().email(),
-  displayName: z.string(),
-  type: z.string(),
-  enabled: z.boolean(),
-  isOAuthAcc: z.boolean(),
-  incomingBlocked: z.boolean(),
-  outgoingBlocked: z.boolean(),
-});
-
-type ZohoSubAccount = z.infer<typeof zohoSubAccountSchema>;
-
 const zohoAccountsResponseSchema = z.object({
   status: z.object({ code: z.number(), description: z.string() }),
   data: z.array(zohoSubAccountSchema),
@@ -50,7 +42,7 @@ export default function AccountManager() {
   const queryClient = useQueryClient();
   const [selectedPrimaryAccountKey, setSelectedPrimaryAccountKey] = useState<string | null>(null);
 
-  const { data: primaryAccounts, isLoading: primaryAccountsLoading } = useQuery<EmailAccount[]>({
+  const { data: primaryAccounts, isLoading: primaryAccountsLoading } = useQuery<PublicEmailAccount[]>({
     queryKey: ['/api/accounts'],
     staleTime: Infinity
   });
@@ -76,6 +68,8 @@ export default function AccountManager() {
       client_id: "",
       client_secret: "",
       refresh_token: "",
+      fromAddress: "",
+      region: "com",
     },
   });
 
@@ -101,8 +95,22 @@ export default function AccountManager() {
     },
   });
 
+  // Sub-accounts are cached on the server; this asks Zoho again, e.g. after adding a sender there.
+  const refreshSubAccountsMutation = useMutation({
+    mutationFn: async (accountKey: string) => {
+      const res = await apiRequest('POST', '/api/zoho-accounts/refresh', { accountKey });
+      return res.json();
+    },
+    onSuccess: (_data, accountKey) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/zoho-accounts', accountKey] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to refresh sub-accounts", description: error.message, variant: "destructive" });
+    },
+  });
+
   const onSubmit = (data: AddAccount) => {
-    addAccountMutation.mutate(data);
+    addAccountMutation.mutate({ ...data, fromAddress: data.fromAddress || undefined });
   };
   
   useEffect(() => {
@@ -171,6 +179,30 @@ export default function AccountManager() {
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="region"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Zoho Region</FormLabel>
+                  <RegionSelect value={field.value} onValueChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="fromAddress"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center"><Mail className="h-3 w-3 mr-1.5"/> Default Sender (optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Defaults to the first Zoho sub-account" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             <div className="flex justify-end">
               <Button type="submit" disabled={addAccountMutation.isPending}>
                 {addAccountMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Account"}
@@ -182,6 +214,18 @@ export default function AccountManager() {
 
       <Separator />
 
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ExternalLink className="h-4 w-4" /> Connect with Zoho
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          No refresh token yet? Sign in to Zoho and approve access, and the account is added automatically.
+        </p>
+        <ZohoConnect />
+      </div>
+
+      <Separator />
+
       <div className="space-y-4">
         <h3 className="text-lg font-semibold flex items-center gap-2">
           <Mail className="h-4 w-4" /> All Accounts
@@ -192,6 +236,7 @@ export default function AccountManager() {
             </div>
           ) : (
           <div className="space-y-4">
+            <AccountList accounts={primaryAccounts || []} />
             <div className="flex items-center gap-2">
               <p className="text-sm font-medium leading-none">
                 Select Primary Zoho Account:
@@ -208,6 +253,15 @@ export default function AccountManager() {
                   ))}
                 </SelectContent>
               </Select>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={!selectedPrimaryAccountKey || refreshSubAccountsMutation.isPending}
+                onClick={() => selectedPrimaryAccountKey && refreshSubAccountsMutation.mutate(selectedPrimaryAccountKey)}
+              >
+                <RefreshCw className={`h-3 w-3 mr-1 ${refreshSubAccountsMutation.isPending ? 'animate-spin' : ''}`} /> Refresh from Zoho
+              </Button>
             </div>
             
             {subAccountsLoading ? (
@@ -215,40 +269,19 @@ export default function AccountManager() {
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
               </div>
             ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Account ID</TableHead>
-                    <TableHead>Email Address</TableHead>
-                    <TableHead>Display Name</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Account Type</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {subAccounts && subAccounts.length > 0 ? (
-                    subAccounts.map((account: ZohoSubAccount, index: number) => (
-                      <TableRow key={account.account_key}>
-                        <TableCell className="font-mono text-muted-foreground">{account.account_key}</TableCell>
-                        <TableCell className="font-medium">{account.emailAddress}</TableCell>
-                        <TableCell>{account.displayName}</TableCell>
-                        <TableCell>{account.enabled ? 'Active' : 'Inactive'}</TableCell>
-                        <TableCell>{account.type}</TableCell>
-                      </TableRow>
-                    ))
-                  ) : (
-                    <TableRow>
-                      <TableCell colSpan={5} className="text-center text-muted-foreground">
-                        No sub-accounts found for the selected account.
-                      </TableCell>
-                    </TableRow>
-                  )}
-                </TableBody>
-              </Table>
+              selectedPrimaryAccountKey && <SubAccountTable accountKey={selectedPrimaryAccountKey} subAccounts={subAccounts || []} />
             )}
           </div>
         )}
       </div>
+
+      <Separator />
+
+      <RateLimitManager
+        primaryAccounts={primaryAccounts || []}
+        selectedPrimaryAccountKey={selectedPrimaryAccountKey}
+        senderAddresses={(subAccounts || []).map((account: ZohoSubAccount) => account.emailAddress)}
+      />
     </div>
   );
 }
\ No newline at end of file
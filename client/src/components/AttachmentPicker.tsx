@@ -0,0 +1,117 @@
+import React, { useRef, useState } from "react";
+import { Loader2, Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BLOCKED_ATTACHMENT_EXTENSIONS, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_MESSAGE,
+  type Attachment,
+} from "@shared/schema";
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// The request field for the staged files, or nothing when none are attached.
+export const attachmentRequestFields = (attachments: Attachment[]) =>
+  attachments.length > 0 ? { attachmentIds: attachments.map(attachment => attachment.id) } : {};
+
+// Checked here so the user hears about it before uploading; the server checks again.
+const fileProblem = (file: File) => {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  if (BLOCKED_ATTACHMENT_EXTENSIONS.includes(extension)) return `.${extension} files cannot be attached.`;
+  if (file.size === 0) return "The file is empty.";
+  if (file.size > MAX_ATTACHMENT_BYTES) return `Attachments are limited to ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`;
+  return null;
+};
+
+// The body is the raw file rather than JSON, so this does not go through apiRequest.
+const uploadFile = async (file: File): Promise<Attachment> => {
+  const params = new URLSearchParams({ fileName: file.name, contentType: file.type });
+  const res = await fetch(`/api/attachments?${params}`, {
+    method: 'POST',
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.message || res.statusText);
+  }
+  return res.json();
+};
+
+// "Attach files" button and the list of staged files for the send forms.
+export default function AttachmentPicker({ value, onChange }: { value: Attachment[]; onChange: (value: Attachment[]) => void }) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const addFiles = async (files: File[]) => {
+    if (value.length + files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      toast({ title: "Too many attachments", description: `At most ${MAX_ATTACHMENTS_PER_MESSAGE} files can be attached to a message.`, variant: "destructive" });
+      return;
+    }
+    const uploaded: Attachment[] = [];
+    setUploading(true);
+    for (const file of files) {
+      const problem = fileProblem(file);
+      try {
+        if (problem) throw new Error(problem);
+        uploaded.push(await uploadFile(file));
+      } catch (error: any) {
+        toast({ title: `Could not attach ${file.name}`, description: error.message, variant: "destructive" });
+      }
+    }
+    setUploading(false);
+    onChange([...value, ...uploaded]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = '';
+          if (files.length > 0) addFiles(files);
+        }}
+        data-testid="input-attachments"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={uploading || value.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+        onClick={() => inputRef.current?.click()}
+        data-testid="button-attach-files"
+      >
+        {uploading ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Paperclip className="h-3 w-3 mr-1" />}
+        Attach files
+      </Button>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(attachment => (
+            <span key={attachment.id} className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-3 py-1 text-xs text-slate-700">
+              <Paperclip className="h-3 w-3" />
+              {attachment.fileName}
+              <span className="text-slate-400">({formatFileSize(attachment.size)})</span>
+              <button
+                type="button"
+                className="ml-1 text-slate-400 hover:text-red-600"
+                onClick={() => onChange(value.filter(other => other.id !== attachment.id))}
+                data-testid={`button-remove-attachment-${attachment.id}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-slate-500">
+        Up to {MAX_ATTACHMENTS_PER_MESSAGE} files of {formatFileSize(MAX_ATTACHMENT_BYTES)} each.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import React from "react";
+import { useFormContext } from "react-hook-form";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { htmlToText } from "@shared/html-to-text";
+import { mailFormatLabels, type MailFormat, type MessageBody } from "@shared/schema";
+
+// Body format choice and the plain-text part for the send forms. Rendered inside a <Form>.
+// Until the user edits it, textContent stays unset and the text part follows the HTML;
+// once edited, the edited text is sent as is.
+export default function BodyFormatFields() {
+  const form = useFormContext<MessageBody>();
+  const mailFormat = form.watch("mailFormat") ?? "html";
+  const content = form.watch("content");
+  const textContent = form.watch("textContent");
+  const edited = textContent !== undefined;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium text-slate-600">Body format</span>
+        <Select value={mailFormat} onValueChange={(value) => form.setValue("mailFormat", value as MailFormat)}>
+          <SelectTrigger className="w-48 h-8 text-xs border-slate-300" data-testid="select-mail-format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(mailFormatLabels) as MailFormat[]).map(format => (
+              <SelectItem key={format} value={format}>{mailFormatLabels[format]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {mailFormat !== "html" && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-slate-600">
+              Plain-text version {edited ? '(edited)' : '(generated from the HTML)'}
+            </span>
+            {edited && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => form.setValue("textContent", undefined)}
+                data-testid="button-regenerate-text"
+              >
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Regenerate from HTML
+              </Button>
+            )}
+          </div>
+          <Textarea
+            rows={8}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm font-mono resize-y"
+            value={edited ? textContent : htmlToText(content || '')}
+            onChange={(e) => form.setValue("textContent", e.target.value)}
+            data-testid="textarea-text-content"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
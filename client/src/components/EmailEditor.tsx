@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Bold, Italic, Underline, Strikethrough, Heading1, Heading2, Pilcrow, List, ListOrdered,
+  AlignLeft, AlignCenter, AlignRight, Link, Unlink, Image, RemoveFormatting, Check, X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import EmailPreview from "@/components/EmailPreview";
+
+type Mode = "visual" | "source" | "preview";
+
+const modeLabels: Record<Mode, string> = { visual: "Visual", source: "HTML source", preview: "Preview" };
+
+// Toolbar buttons and the document.execCommand call each one makes.
+const formattingCommands = [
+  { icon: Bold, label: "Bold", command: "bold" },
+  { icon: Italic, label: "Italic", command: "italic" },
+  { icon: Underline, label: "Underline", command: "underline" },
+  { icon: Strikethrough, label: "Strikethrough", command: "strikeThrough" },
+  { icon: Heading1, label: "Heading 1", command: "formatBlock", value: "h1" },
+  { icon: Heading2, label: "Heading 2", command: "formatBlock", value: "h2" },
+  { icon: Pilcrow, label: "Paragraph", command: "formatBlock", value: "p" },
+  { icon: List, label: "Bulleted list", command: "insertUnorderedList" },
+  { icon: ListOrdered, label: "Numbered list", command: "insertOrderedList" },
+  { icon: AlignLeft, label: "Align left", command: "justifyLeft" },
+  { icon: AlignCenter, label: "Center", command: "justifyCenter" },
+  { icon: AlignRight, label: "Align right", command: "justifyRight" },
+  { icon: Unlink, label: "Remove link", command: "unlink" },
+  { icon: RemoveFormatting, label: "Clear formatting", command: "removeFormat" },
+];
+
+// Pasted emails are often complete documents with their own <head> and styles; those are
+// kept as they are. Anything else is treated as a body fragment.
+const isFullDocument = (html: string) => /<(html|head|body)[\s>]/i.test(html);
+
+// The parser moves a fragment's leading <style>, <meta>, <link> or <title> into <head>, so
+// the head's children are sent along with the body or the first edit would drop them.
+// The empty document's head only holds the placeholder style, which is never sent.
+const fragmentHtml = (doc: Document, source: string) => source ? doc.head.innerHTML + doc.body.innerHTML : doc.body.innerHTML;
+
+// An empty body shows the placeholder. The style ends up in <head>, which is not part of
+// what a body fragment sends.
+const emptyDocument = (placeholder: string) =>
+  `<style>body:empty::before { content: attr(data-placeholder); color: #94a3b8; }</style><body data-placeholder="${placeholder.replace(/"/g, '&quot;')}"></body>`;
+
+// The HTML email editor of the send forms: a visual mode with a formatting toolbar, the raw
+// HTML source, and a preview at desktop and mobile widths.
+//
+// The visual mode edits the email inside a sandboxed iframe in design mode, so the email's
+// own styles stay out of the app and its scripts and event handlers never run.
+export default function EmailEditor({ value, onChange, subject = "", placeholder, testId }: { value: string; onChange: (value: string) => void; subject?: string; placeholder?: string; testId?: string }) {
+  const [mode, setMode] = useState<Mode>("visual");
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  // The HTML loaded into the frame. It only changes when the value is changed from outside
+  // (source mode, a template, a form reset); the frame's own edits must not reload it.
+  const [frameSource, setFrameSource] = useState(value);
+  const [frameKey, setFrameKey] = useState(0);
+  const emitted = useRef(value);
+  const [inserting, setInserting] = useState<"link" | "image" | null>(null);
+  const [url, setUrl] = useState("https://");
+
+  useEffect(() => {
+    if (value === emitted.current) return;
+    emitted.current = value;
+    setFrameSource(value);
+    setFrameKey(key => key + 1);
+  }, [value]);
+
+  const frameDocument = () => frameRef.current?.contentDocument ?? null;
+
+  const emit = () => {
+    const doc = frameDocument();
+    if (!doc) return;
+    const html = isFullDocument(frameSource) ? `<!DOCTYPE html>\n${doc.documentElement.outerHTML}` : fragmentHtml(doc, frameSource);
+    emitted.current = html;
+    onChange(html);
+  };
+
+  const startEditing = () => {
+    const doc = frameDocument();
+    if (!doc) return;
+    doc.designMode = "on";
+    doc.addEventListener("input", emit);
+  };
+
+  const run = (command: string, commandValue?: string) => {
+    const doc = frameDocument();
+    if (!doc) return;
+    frameRef.current?.contentWindow?.focus();
+    doc.execCommand(command, false, commandValue);
+    emit();
+  };
+
+  const insert = () => {
+    if (inserting === "link") run("createLink", url);
+    if (inserting === "image") run("insertImage", url);
+    setInserting(null);
+    setUrl("https://");
+  };
+
+  return (
+    <div className="border border-slate-300 rounded-lg overflow-hidden" data-testid={testId}>
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1 bg-slate-50 border-b border-slate-200">
+        {(Object.keys(modeLabels) as Mode[]).map(option => (
+          <Button
+            key={option}
+            type="button"
+            variant={mode === option ? "default" : "ghost"}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => setMode(option)}
+            data-testid={`button-editor-${option}`}
+          >
+            {modeLabels[option]}
+          </Button>
+        ))}
+        {mode === "visual" && (
+          <>
+            <span className="mx-1 h-5 border-l border-slate-300" />
+            {formattingCommands.map(({ icon: Icon, label, command, value: commandValue }) => (
+              <Button key={label} type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" title={label} onClick={() => run(command, commandValue)}>
+                <Icon className="h-4 w-4" />
+              </Button>
+            ))}
+            <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" title="Insert link" onClick={() => setInserting("link")} data-testid="button-editor-link">
+              <Link className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" title="Insert image" onClick={() => setInserting("image")} data-testid="button-editor-image">
+              <Image className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+      {mode === "visual" && inserting && (
+        <div className="flex items-center gap-2 px-2 py-1 bg-slate-50 border-b border-slate-200">
+          <span className="text-xs text-slate-600">{inserting === "link" ? "Link URL" : "Image URL"}</span>
+          <Input
+            autoFocus
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") { e.preventDefault(); insert(); }
+              if (e.key === "Escape") setInserting(null);
+            }}
+            className="h-7 text-xs flex-1"
+            data-testid="input-editor-url"
+          />
+          <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={insert}>
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setInserting(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      {/* Hidden rather than unmounted in the other modes, so its edits are not reloaded away. */}
+      <iframe
+        key={frameKey}
+        ref={frameRef}
+        title="Email editor"
+        // Same origin so the form can edit the document; no scripts inside it.
+        sandbox="allow-same-origin"
+        srcDoc={frameSource || emptyDocument(placeholder ?? "")}
+        onLoad={startEditing}
+        className={mode === "visual" ? "w-full h-80 bg-white" : "hidden"}
+      />
+      {mode === "source" && (
+        <Textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="<p>Your HTML here</p>"
+          rows={14}
+          className="w-full border-0 rounded-none text-xs font-mono resize-y focus-visible:ring-0"
+          data-testid="textarea-editor-source"
+        />
+      )}
+      {mode === "preview" && (
+        <div className="p-2">
+          <EmailPreview subject={subject} content={value} />
+        </div>
+      )}
+    </div>
+  );
+}
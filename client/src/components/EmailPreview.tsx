@@ -0,0 +1,61 @@
+import React, { useState } from "react";
+import { type MailFormat } from "@shared/schema";
+
+function Toggle<T extends string>({ options, value, onChange, testId }: { options: Record<T, string>; value: T; onChange: (value: T) => void; testId: string }) {
+  return (
+    <div className="flex text-xs border border-slate-300 rounded-md overflow-hidden">
+      {(Object.keys(options) as T[]).map(option => (
+        <button
+          key={option}
+          type="button"
+          className={`px-2 py-1 ${value === option ? 'bg-primary text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+          onClick={() => onChange(option)}
+          data-testid={`${testId}-${option}`}
+        >
+          {options[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Renders an email the way a mail client would: the HTML goes into a sandboxed iframe
+// so its styles and scripts cannot touch the app. A message with a text part can be
+// switched to it; a plain-text message only has that. The HTML can be viewed at desktop
+// width or at a phone's 375px.
+export default function EmailPreview({ subject, content, mailFormat = "html", textContent = "" }: { subject: string; content: string; mailFormat?: MailFormat; textContent?: string }) {
+  const [version, setVersion] = useState<"html" | "text">("html");
+  const [device, setDevice] = useState<"desktop" | "mobile">("desktop");
+  const shown = mailFormat === "html" ? "html" : mailFormat === "plaintext" ? "text" : version;
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-hidden" data-testid="email-preview">
+      <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 text-sm flex items-center justify-between">
+        <div>
+          <span className="text-slate-500 mr-2">Subject:</span>
+          <span className="font-medium text-slate-800">{subject || '(no subject)'}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {shown === "html" && (
+            <Toggle options={{ desktop: "Desktop", mobile: "Mobile" }} value={device} onChange={setDevice} testId="button-preview-device" />
+          )}
+          {mailFormat === "both" && (
+            <Toggle options={{ html: "HTML", text: "Text" }} value={version} onChange={setVersion} testId="button-preview" />
+          )}
+        </div>
+      </div>
+      {shown === "html" ? (
+        <div className="bg-slate-100 flex justify-center">
+          <iframe
+            title="Email preview"
+            sandbox=""
+            srcDoc={content}
+            className={`h-96 bg-white ${device === "mobile" ? "w-[375px] border-x border-slate-200" : "w-full"}`}
+          />
+        </div>
+      ) : (
+        <pre className="w-full h-96 overflow-auto bg-white p-3 text-sm text-slate-800 whitespace-pre-wrap font-mono">{textContent}</pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useState } from "react";
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { ChevronDown, ChevronRight, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { MAX_CUSTOM_HEADERS, type MessageOptions } from "@shared/schema";
+
+export const emptyMessageOptions = (): Required<MessageOptions> => ({ ccAddress: "", bccAddress: "", replyTo: "", headers: [] });
+
+const addressFields = [
+  { name: "ccAddress", label: "CC", placeholder: "copy@example.com, another@example.com" },
+  { name: "bccAddress", label: "BCC", placeholder: "hidden@example.com" },
+  { name: "replyTo", label: "Reply-To", placeholder: "replies@example.com" },
+] as const;
+
+// CC, BCC, Reply-To and custom headers for the send forms. Rendered inside a <Form>,
+// whose schema validates the fields.
+export default function MessageOptionsFields() {
+  const form = useFormContext<MessageOptions>();
+  const headers = useFieldArray({ control: form.control, name: "headers" });
+  const values = form.watch();
+  const inUse = !!(values.ccAddress || values.bccAddress || values.replyTo || values.headers?.length);
+  const { errors } = form.formState;
+  const [expanded, setExpanded] = useState(false);
+  // A field that fails validation must be visible.
+  const open = expanded || !!(errors.ccAddress || errors.bccAddress || errors.replyTo || errors.headers);
+
+  return (
+    <div className="space-y-3">
+      <button
+        type="button"
+        className="flex items-center text-xs font-medium text-slate-600 hover:text-slate-900"
+        onClick={() => setExpanded(!open)}
+        data-testid="button-toggle-message-options"
+      >
+        {open ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+        CC, BCC, Reply-To and headers{!open && inUse ? ' (set)' : ''}
+      </button>
+      {open && (
+        <div className="border border-slate-200 rounded-lg p-3 space-y-3">
+          {addressFields.map(({ name, label, placeholder }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs font-medium text-slate-600">{label}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={placeholder} className="h-8 text-sm border-slate-300" data-testid={`input-${name}`} {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-slate-600">Custom headers</p>
+            {headers.fields.map((header, index) => (
+              <div key={header.id} className="flex items-start gap-2">
+                <FormField
+                  control={form.control}
+                  name={`headers.${index}.name`}
+                  render={({ field }) => (
+                    <FormItem className="w-48">
+                      <FormControl>
+                        <Input placeholder="X-Campaign-Id" className="h-8 text-sm border-slate-300 font-mono" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`headers.${index}.value`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input placeholder="Value" className="h-8 text-sm border-slate-300" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="button" variant="ghost" size="sm" className="h-8 px-2" onClick={() => headers.remove(index)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={headers.fields.length >= MAX_CUSTOM_HEADERS}
+              onClick={() => headers.append({ name: "X-", value: "" })}
+              data-testid="button-add-header"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add header
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
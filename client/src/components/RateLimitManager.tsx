@@ -0,0 +1,155 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Gauge, Loader2, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type PublicEmailAccount, type RateLimit } from "@shared/schema";
+
+type LimitInputs = { perMinute: string; perHour: string; perDay: string };
+
+const emptyInputs: LimitInputs = { perMinute: "", perHour: "", perDay: "" };
+
+const toLimit = (value: string) => (value.trim() === "" ? null : parseInt(value, 10));
+
+// Lets the user set messages per minute/hour/day for the selected primary account or one of its senders.
+export default function RateLimitManager({ primaryAccounts, selectedPrimaryAccountKey, senderAddresses }: {
+  primaryAccounts: PublicEmailAccount[];
+  selectedPrimaryAccountKey: string | null;
+  senderAddresses: string[];
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [target, setTarget] = useState<string>("account");
+  const [inputs, setInputs] = useState<LimitInputs>(emptyInputs);
+
+  const { data: limits, isLoading } = useQuery<RateLimit[]>({
+    queryKey: ['/api/rate-limits'],
+  });
+
+  const saveLimitMutation = useMutation({
+    mutationFn: async (limit: RateLimit) => {
+      const res = await apiRequest('PUT', '/api/rate-limits', limit);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Send limit saved" });
+      queryClient.invalidateQueries({ queryKey: ['/api/rate-limits'] });
+      setInputs(emptyInputs);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save send limit", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteLimitMutation = useMutation({
+    mutationFn: async (limit: RateLimit) => {
+      const res = await apiRequest('DELETE', `/api/rate-limits/${limit.scope}/${encodeURIComponent(limit.key)}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rate-limits'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to remove send limit", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const onSave = () => {
+    if (!selectedPrimaryAccountKey) return;
+    const limit: RateLimit = {
+      scope: target === "account" ? "account" : "sender",
+      key: target === "account" ? selectedPrimaryAccountKey : target,
+      perMinute: toLimit(inputs.perMinute),
+      perHour: toLimit(inputs.perHour),
+      perDay: toLimit(inputs.perDay),
+    };
+    saveLimitMutation.mutate(limit);
+  };
+
+  const describeKey = (limit: RateLimit) => {
+    if (limit.scope === "sender") return limit.key;
+    return primaryAccounts.find(account => account.account_key === limit.key)?.name || limit.key;
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <Gauge className="h-4 w-4" /> Send Limits
+      </h3>
+      <div className="flex flex-wrap items-end gap-2">
+        <Select value={target} onValueChange={setTarget}>
+          <SelectTrigger className="w-[260px]">
+            <SelectValue placeholder="Apply limit to" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="account">Whole primary account</SelectItem>
+            {senderAddresses.map(address => (
+              <SelectItem key={address} value={address}>{address}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {(["perMinute", "perHour", "perDay"] as const).map(field => (
+          <Input
+            key={field}
+            type="number"
+            min={1}
+            className="w-[120px]"
+            placeholder={field === "perMinute" ? "Per minute" : field === "perHour" ? "Per hour" : "Per day"}
+            value={inputs[field]}
+            onChange={(e) => setInputs({ ...inputs, [field]: e.target.value })}
+          />
+        ))}
+        <Button type="button" onClick={onSave} disabled={!selectedPrimaryAccountKey || saveLimitMutation.isPending}>
+          {saveLimitMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Limit"}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-12">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Applies To</TableHead>
+              <TableHead>Per Minute</TableHead>
+              <TableHead>Per Hour</TableHead>
+              <TableHead>Per Day</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {limits && limits.length > 0 ? (
+              limits.map(limit => (
+                <TableRow key={`${limit.scope}:${limit.key}`}>
+                  <TableCell className="font-medium">
+                    {describeKey(limit)} <span className="text-xs text-muted-foreground">({limit.scope})</span>
+                  </TableCell>
+                  <TableCell>{limit.perMinute ?? '—'}</TableCell>
+                  <TableCell>{limit.perHour ?? '—'}</TableCell>
+                  <TableCell>{limit.perDay ?? '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => deleteLimitMutation.mutate(limit)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No send limits configured. Emails are sent as fast as Zoho accepts them.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import React from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { zohoRegionSchema, zohoRegionLabels, type ZohoRegion } from "@shared/schema";
+
+// Picks the Zoho data centre an account lives in.
+export default function RegionSelect({ value, onValueChange }: { value: ZohoRegion; onValueChange: (region: ZohoRegion) => void }) {
+  return (
+    <Select value={value} onValueChange={(region) => onValueChange(region as ZohoRegion)}>
+      <SelectTrigger data-testid="select-zoho-region">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {zohoRegionSchema.options.map(region => (
+          <SelectItem key={region} value={region}>{zohoRegionLabels[region]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
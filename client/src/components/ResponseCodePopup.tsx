@@ -0,0 +1,131 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { CheckCircle, Code, Eye, Activity, Mail, Paperclip, RotateCcw } from "lucide-react";
+import { formatFileSize } from "@/components/AttachmentPicker";
+import { type EmailResult } from "@shared/schema";
+
+// Colour classes per result status: the trigger button, and badges/boxes inside the dialog.
+const statusStyles: Record<EmailResult['status'], { button: string; badge: string }> = {
+  Success: { button: 'text-green-700 border-green-300 hover:bg-green-50', badge: 'bg-green-100 text-green-800' },
+  Failed: { button: 'text-red-700 border-red-300 hover:bg-red-50', badge: 'bg-red-100 text-red-800' },
+  Suppressed: { button: 'text-amber-700 border-amber-300 hover:bg-amber-50', badge: 'bg-amber-100 text-amber-800' },
+};
+
+export default function ResponseCodePopup({ result }: { result: EmailResult }) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={`px-3 py-1 text-xs font-mono ${statusStyles[result.status].button}`}
+          data-testid={`button-response-code-${result.recipient}`}
+        >
+          <Code className="h-3 w-3 mr-1" />
+          {result.responseCode || 'N/A'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[70vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Activity className="h-5 w-5 mr-2" />
+            Full Response Details - {result.recipient}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="flex items-center text-sm font-medium text-slate-700">
+                <Mail className="h-4 w-4 mr-2" />
+                Recipient
+              </div>
+              <p className="text-sm text-slate-600 font-mono bg-slate-100 p-2 rounded">
+                {result.recipient}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center text-sm font-medium text-slate-700">
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Status
+              </div>
+              <Badge className={statusStyles[result.status].badge}>
+                {result.status}
+              </Badge>
+            </div>
+          </div>
+          
+          <div className="space-y-2">
+            <div className="flex items-center text-sm font-medium text-slate-700">
+              <Code className="h-4 w-4 mr-2" />
+              Response Code
+            </div>
+            <p className={`text-sm font-mono p-2 rounded ${statusStyles[result.status].badge}`}>
+              {result.responseCode || 'N/A'}
+            </p>
+          </div>
+
+          {result.messageId && (
+            <div className="space-y-2">
+              <div className="flex items-center text-sm font-medium text-slate-700">
+                <Mail className="h-4 w-4 mr-2" />
+                Message ID
+              </div>
+              <p className="text-sm text-slate-600 font-mono bg-slate-100 p-2 rounded break-all">
+                {result.messageId}
+              </p>
+            </div>
+          )}
+
+          {result.attachments && result.attachments.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center text-sm font-medium text-slate-700">
+                <Paperclip className="h-4 w-4 mr-2" />
+                Attachments ({result.attachments.length})
+              </div>
+              <div className="space-y-1">
+                {result.attachments.map((attachment) => (
+                  <div key={attachment.id} className="flex items-center justify-between text-xs font-mono bg-slate-100 p-2 rounded">
+                    <span className="text-slate-600">{attachment.fileName}</span>
+                    <span className="text-slate-500">{formatFileSize(attachment.size)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result.attempts && result.attempts.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center text-sm font-medium text-slate-700">
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Attempts ({result.attempts.length})
+              </div>
+              <div className="space-y-1">
+                {result.attempts.map((attempt) => (
+                  <div key={attempt.attempt} className="flex items-center justify-between text-xs font-mono bg-slate-100 p-2 rounded">
+                    <span className="text-slate-600">#{attempt.attempt} at {new Date(attempt.at).toLocaleTimeString()}</span>
+                    <span className={attempt.success ? 'text-green-700' : 'text-red-700'}>
+                      {attempt.success ? 'sent' : `${attempt.failureType} (${attempt.reason})`} · {attempt.responseCode ?? 'N/A'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center text-sm font-medium text-slate-700">
+              <Eye className="h-4 w-4 mr-2" />
+              Full Zoho Response
+            </div>
+            <div className="bg-slate-900 text-green-400 p-4 rounded-lg overflow-auto max-h-64">
+              <pre className="text-xs whitespace-pre-wrap">
+                {JSON.stringify(result.fullResponse, null, 2)}
+              </pre>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
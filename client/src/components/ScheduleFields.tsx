@@ -0,0 +1,58 @@
+import React, { useMemo } from "react";
+import { CalendarClock } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type ScheduleValue = { enabled: boolean; scheduledAt: string; timeZone: string };
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const emptySchedule = (): ScheduleValue => ({ enabled: false, scheduledAt: "", timeZone: browserTimeZone() });
+
+// The fields a send request needs, or nothing when the user sends right away.
+export const scheduleRequestFields = (schedule: ScheduleValue) =>
+  schedule.enabled && schedule.scheduledAt ? { scheduledAt: schedule.scheduledAt, timeZone: schedule.timeZone } : {};
+
+export function ScheduleInputs({ value, onChange }: { value: ScheduleValue; onChange: (value: ScheduleValue) => void }) {
+  const timeZones = useMemo(() => {
+    const zones = Intl.supportedValuesOf("timeZone");
+    return zones.includes(value.timeZone) ? zones : [value.timeZone, ...zones];
+  }, [value.timeZone]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        type="datetime-local"
+        className="w-56 h-8 text-xs border-slate-300"
+        value={value.scheduledAt}
+        onChange={(e) => onChange({ ...value, scheduledAt: e.target.value })}
+        data-testid="input-scheduled-at"
+      />
+      <Select value={value.timeZone} onValueChange={(timeZone) => onChange({ ...value, timeZone })}>
+        <SelectTrigger className="w-56 h-8 text-xs border-slate-300" data-testid="select-time-zone">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {timeZones.map(zone => (
+            <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// "Send later" switch for the compose forms.
+export default function ScheduleFields({ value, onChange }: { value: ScheduleValue; onChange: (value: ScheduleValue) => void }) {
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+        <Switch checked={value.enabled} onCheckedChange={(enabled) => onChange({ ...value, enabled })} data-testid="switch-schedule" />
+        <CalendarClock className="h-3 w-3" />
+        Schedule for later
+      </label>
+      {value.enabled && <ScheduleInputs value={value} onChange={onChange} />}
+    </div>
+  );
+}
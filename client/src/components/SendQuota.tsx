@@ -0,0 +1,45 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Gauge } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { type QuotaWindow, type SendQuota as SendQuotaData } from "@shared/schema";
+
+type QuotaResponse = { account: SendQuotaData; sender: SendQuotaData };
+
+// Smallest remaining count of the two quotas for one window; null means no limit applies.
+const remainingFor = (data: QuotaResponse, window: keyof SendQuotaData) => {
+  const values = [data.account[window], data.sender[window]]
+    .map((quota: QuotaWindow) => quota.remaining)
+    .filter((remaining): remaining is number => remaining !== null);
+  return values.length > 0 ? Math.min(...values) : null;
+};
+
+export default function SendQuota({ accountKey, fromAddress }: { accountKey: string | null; fromAddress: string }) {
+  const { data } = useQuery<QuotaResponse>({
+    queryKey: ['/api/rate-limits/quota', accountKey, fromAddress],
+    queryFn: async () => {
+      const params = new URLSearchParams({ accountKey: accountKey || '', fromAddress });
+      const res = await apiRequest('GET', `/api/rate-limits/quota?${params}`);
+      return res.json();
+    },
+    enabled: !!accountKey && !!fromAddress,
+    refetchInterval: 10000,
+  });
+
+  if (!data) return null;
+
+  const windows = (['minute', 'hour', 'day'] as const).map(window => ({ window, remaining: remainingFor(data, window) }));
+  if (windows.every(({ remaining }) => remaining === null)) return null;
+
+  return (
+    <div className="flex items-center space-x-3 text-xs text-slate-500 mt-2" data-testid="text-send-quota">
+      <Gauge className="h-3 w-3" />
+      <span>Remaining quota:</span>
+      {windows.filter(({ remaining }) => remaining !== null).map(({ window, remaining }) => (
+        <span key={window} className={remaining === 0 ? "text-red-600 font-medium" : "font-medium text-slate-700"}>
+          {remaining} / {window}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React from "react";
+import { useQueries } from "@tanstack/react-query";
+import { Loader2, Shuffle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { type PublicEmailAccount, type RotationStrategy, type Sender } from "@shared/schema";
+
+type SubAccount = { account_key: string; emailAddress: string; displayName?: string; outgoingBlocked?: boolean };
+
+export type RotationValue = { enabled: boolean; senders: Sender[]; strategy: RotationStrategy };
+
+export const emptyRotation = (): RotationValue => ({ enabled: false, senders: [], strategy: "round_robin" });
+
+// The fields a bulk request needs to rotate senders, or nothing when one sender is used.
+// The first rotation sender also becomes the request's primary account and from address.
+export const rotationRequestFields = (rotation: RotationValue) =>
+  rotation.enabled && rotation.senders.length > 0
+    ? {
+        senders: rotation.senders,
+        rotation: rotation.strategy,
+        primaryAccountKey: rotation.senders[0].accountKey,
+        accountSelect: rotation.senders[0].fromAddress,
+      }
+    : {};
+
+const strategyLabels: Record<RotationStrategy, string> = {
+  round_robin: "Round robin",
+  weighted: "Weighted",
+  quota: "Most daily quota left",
+};
+
+const isSame = (sender: Sender, accountKey: string, fromAddress: string) =>
+  sender.accountKey === accountKey && sender.fromAddress === fromAddress;
+
+// "Rotate senders" switch for the bulk form: pick sub-accounts from any enabled primary account.
+export default function SenderRotationFields({ accounts, value, onChange }: { accounts: PublicEmailAccount[]; value: RotationValue; onChange: (value: RotationValue) => void }) {
+  const enabledAccounts = accounts.filter(account => account.enabled);
+  const subAccountQueries = useQueries({
+    queries: enabledAccounts.map(account => ({
+      queryKey: ['/api/zoho-accounts', account.account_key],
+      queryFn: async (): Promise<SubAccount[]> => {
+        const res = await apiRequest('GET', `/api/zoho-accounts?accountKey=${account.account_key}`);
+        return (await res.json()).data;
+      },
+      enabled: value.enabled,
+      staleTime: Infinity,
+    })),
+  });
+
+  const toggleSender = (accountKey: string, fromAddress: string, checked: boolean) => {
+    const senders = checked
+      ? [...value.senders, { accountKey, fromAddress, weight: 1 }]
+      : value.senders.filter(sender => !isSame(sender, accountKey, fromAddress));
+    onChange({ ...value, senders });
+  };
+
+  const setWeight = (accountKey: string, fromAddress: string, weight: number) => {
+    onChange({ ...value, senders: value.senders.map(sender => isSame(sender, accountKey, fromAddress) ? { ...sender, weight } : sender) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+        <Switch checked={value.enabled} onCheckedChange={(enabled) => onChange({ ...value, enabled })} data-testid="switch-rotation" />
+        <Shuffle className="h-3 w-3" />
+        Rotate across several senders
+      </label>
+      {value.enabled && (
+        <div className="border border-slate-200 rounded-lg p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-600">Strategy</span>
+            <Select value={value.strategy} onValueChange={(strategy) => onChange({ ...value, strategy: strategy as RotationStrategy })}>
+              <SelectTrigger className="w-56 h-8 text-xs border-slate-300" data-testid="select-rotation-strategy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(strategyLabels) as RotationStrategy[]).map(strategy => (
+                  <SelectItem key={strategy} value={strategy}>{strategyLabels[strategy]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {enabledAccounts.map((account, index) => {
+            const query = subAccountQueries[index];
+            return (
+              <div key={account.account_key} className="space-y-1">
+                <p className="text-xs font-medium text-slate-700">{account.name}</p>
+                {query.isLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                ) : query.isError ? (
+                  <p className="text-xs text-red-600">Could not load the sub-accounts.</p>
+                ) : (
+                  query.data?.map(subAccount => {
+                    const selected = value.senders.find(sender => isSame(sender, account.account_key, subAccount.emailAddress));
+                    return (
+                      <div key={subAccount.account_key} className="flex items-center gap-2 text-xs pl-2">
+                        <Checkbox
+                          checked={!!selected}
+                          disabled={subAccount.outgoingBlocked}
+                          onCheckedChange={(checked) => toggleSender(account.account_key, subAccount.emailAddress, checked === true)}
+                        />
+                        <span className={subAccount.outgoingBlocked ? "text-slate-400 line-through" : "text-slate-700"}>{subAccount.emailAddress}</span>
+                        {subAccount.outgoingBlocked && <span className="text-slate-400">(outgoing blocked)</span>}
+                        {selected && value.strategy === "weighted" && (
+                          <Input
+                            type="number"
+                            min={1}
+                            className="w-16 h-6 text-xs ml-auto"
+                            value={selected.weight}
+                            onChange={(e) => setWeight(account.account_key, subAccount.emailAddress, Math.max(1, parseInt(e.target.value, 10) || 1))}
+                          />
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            );
+          })}
+          <p className="text-xs text-slate-500">
+            {value.senders.length} sender{value.senders.length === 1 ? '' : 's'} selected. A sender that gets blocked is skipped and its recipients go to the next one.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
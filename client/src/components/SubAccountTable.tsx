@@ -0,0 +1,192 @@
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type CreateSubAccount, type UpdateSubAccount } from "@shared/schema";
+
+// Schema for Zoho API response
+export const zohoSubAccountSchema = z.object({
+  account_key: z.string(),
+  emailAddress: z.string().email(),
+  displayName: z.string(),
+  type: z.string(),
+  enabled: z.boolean(),
+  isOAuthAcc: z.boolean(),
+  incomingBlocked: z.boolean(),
+  outgoingBlocked: z.boolean(),
+});
+
+export type ZohoSubAccount = z.infer<typeof zohoSubAccountSchema>;
+
+type Flag = "enabled" | "incomingBlocked" | "outgoingBlocked";
+
+const flagColumns: { flag: Flag; label: string }[] = [
+  { flag: "enabled", label: "Enabled" },
+  { flag: "incomingBlocked", label: "Incoming blocked" },
+  { flag: "outgoingBlocked", label: "Outgoing blocked" },
+];
+
+// The Zoho sub-accounts of one primary account, with create, enable/disable, block and
+// delete actions. Every change is made in Zoho and the list is refetched from there.
+export default function SubAccountTable({ accountKey, subAccounts }: { accountKey: string; subAccounts: ZohoSubAccount[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newAccount, setNewAccount] = useState({ emailAddress: "", displayName: "" });
+  const [deleting, setDeleting] = useState<ZohoSubAccount | null>(null);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/zoho-accounts', accountKey] });
+  };
+
+  const onError = (error: any) => {
+    toast({ title: "Sub-account action failed", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const body: CreateSubAccount = { accountKey, emailAddress: newAccount.emailAddress.trim(), displayName: newAccount.displayName.trim() || undefined };
+      const res = await apiRequest('POST', '/api/zoho-accounts', body);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Sub-account created", description: newAccount.emailAddress });
+      setNewAccount({ emailAddress: "", displayName: "" });
+      onSuccess();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ subAccount, changes }: { subAccount: ZohoSubAccount; changes: Omit<UpdateSubAccount, 'accountKey'> }) => {
+      const res = await apiRequest('PATCH', `/api/zoho-accounts/${subAccount.account_key}`, { accountKey, ...changes });
+      return res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (subAccount: ZohoSubAccount) => {
+      const res = await apiRequest('DELETE', `/api/zoho-accounts/${subAccount.account_key}?accountKey=${accountKey}`);
+      return res.json();
+    },
+    onSuccess: (_data, subAccount) => {
+      toast({ title: "Sub-account deleted", description: subAccount.emailAddress });
+      setDeleting(null);
+      onSuccess();
+    },
+    onError,
+  });
+
+  const updatingKey = updateMutation.isPending ? updateMutation.variables?.subAccount.account_key : null;
+
+  return (
+    <div className="space-y-3">
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          createMutation.mutate();
+        }}
+      >
+        <Input
+          placeholder="new.sender@example.com"
+          value={newAccount.emailAddress}
+          onChange={(e) => setNewAccount({ ...newAccount, emailAddress: e.target.value })}
+          className="w-64"
+          data-testid="input-new-sub-account-email"
+        />
+        <Input
+          placeholder="Display name (optional)"
+          value={newAccount.displayName}
+          onChange={(e) => setNewAccount({ ...newAccount, displayName: e.target.value })}
+          className="w-56"
+        />
+        <Button type="submit" size="sm" disabled={!newAccount.emailAddress.trim() || createMutation.isPending} data-testid="button-create-sub-account">
+          {createMutation.isPending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Plus className="h-3 w-3 mr-1" />}
+          Create sub-account
+        </Button>
+      </form>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Account ID</TableHead>
+            <TableHead>Email Address</TableHead>
+            <TableHead>Display Name</TableHead>
+            <TableHead>Account Type</TableHead>
+            {flagColumns.map(({ flag, label }) => <TableHead key={flag}>{label}</TableHead>)}
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {subAccounts.length > 0 ? (
+            subAccounts.map((subAccount) => (
+              <TableRow key={subAccount.account_key}>
+                <TableCell className="font-mono text-muted-foreground">{subAccount.account_key}</TableCell>
+                <TableCell className="font-medium">{subAccount.emailAddress}</TableCell>
+                <TableCell>{subAccount.displayName}</TableCell>
+                <TableCell>{subAccount.type}</TableCell>
+                {flagColumns.map(({ flag }) => (
+                  <TableCell key={flag}>
+                    <Switch
+                      checked={subAccount[flag]}
+                      disabled={updatingKey === subAccount.account_key}
+                      onCheckedChange={(checked) => updateMutation.mutate({ subAccount, changes: { [flag]: checked } })}
+                      data-testid={`switch-${flag}-${subAccount.account_key}`}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-red-600 hover:bg-red-50"
+                    onClick={() => setDeleting(subAccount)}
+                    data-testid={`button-delete-sub-account-${subAccount.account_key}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={8} className="text-center text-muted-foreground">
+                No sub-accounts found for the selected account.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.emailAddress}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The sub-account is deleted in Zoho Mail360 with its mail. Campaigns and scheduled sends that use it as sender will fail.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={() => deleting && deleteMutation.mutate(deleting)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
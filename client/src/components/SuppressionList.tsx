@@ -0,0 +1,190 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Ban, Loader2, Trash2, Upload } from "lucide-react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type PublicEmailAccount, type Suppression, type SuppressionReason } from "@shared/schema";
+
+const reasonLabels: Record<SuppressionReason, string> = {
+  hard_bounce: "Hard bounce",
+  unsubscribe: "Unsubscribe",
+  complaint: "Complaint",
+  imported: "Imported",
+};
+
+const GLOBAL_SCOPE = "global";
+
+export default function SuppressionList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
+  const [importText, setImportText] = useState("");
+  const [reason, setReason] = useState<SuppressionReason>("unsubscribe");
+  const [scope, setScope] = useState<string>(GLOBAL_SCOPE);
+
+  const { data: suppressions, isLoading } = useQuery<Suppression[]>({
+    queryKey: ['/api/suppressions'],
+  });
+
+  const { data: primaryAccounts } = useQuery<PublicEmailAccount[]>({
+    queryKey: ['/api/accounts'],
+  });
+
+  const accountKey = scope === GLOBAL_SCOPE ? null : scope;
+
+  const onError = (error: any) => {
+    toast({ title: "Suppression list update failed", description: error.message, variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/suppressions', { email: email.trim(), reason, accountKey });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppressions'] });
+      setEmail("");
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/suppressions/import', { emails: importText, reason, accountKey });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Suppression list imported", description: `${data.added} added, ${data.skipped} skipped` });
+      queryClient.invalidateQueries({ queryKey: ['/api/suppressions'] });
+      setImportText("");
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `/api/suppressions/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppressions'] });
+    },
+    onError,
+  });
+
+  const scopeLabel = (key: string | null) => {
+    if (key === null) return "All accounts";
+    return primaryAccounts?.find(account => account.account_key === key)?.name || key;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Ban className="h-5 w-5 mr-2" /> Suppression List
+        </CardTitle>
+        <p className="text-sm text-slate-500">
+          These addresses, plus every hard bounce above, are skipped when sending.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={reason} onValueChange={(value: SuppressionReason) => setReason(value)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(reasonLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={GLOBAL_SCOPE}>All accounts</SelectItem>
+              {primaryAccounts?.map(account => (
+                <SelectItem key={account.account_key} value={account.account_key}>{account.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="address@example.com"
+            className="w-[260px]"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            data-testid="input-suppression-email"
+          />
+          <Button type="button" onClick={() => addMutation.mutate()} disabled={!email.trim() || addMutation.isPending}>
+            {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add"}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Textarea
+            placeholder="Paste a list to import (one address per line)"
+            rows={3}
+            className="font-mono text-sm"
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            data-testid="textarea-suppression-import"
+          />
+          <div className="flex justify-end">
+            <Button type="button" variant="outline" onClick={() => importMutation.mutate()} disabled={!importText.trim() || importMutation.isPending}>
+              <Upload className="h-4 w-4 mr-2" /> Import List
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!suppressions || suppressions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-slate-400 py-8">
+                    No addresses have been suppressed manually.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                suppressions.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">{entry.email}</TableCell>
+                    <TableCell>{reasonLabels[entry.reason]}</TableCell>
+                    <TableCell>{scopeLabel(entry.accountKey)}</TableCell>
+                    <TableCell>{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(entry.id)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
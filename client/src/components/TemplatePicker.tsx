@@ -0,0 +1,214 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { BookOpen, History, Loader2, Save, Trash2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { diffLines } from "@/lib/line-diff";
+import { type EmailTemplate, type TemplateVersion } from "@shared/schema";
+
+const latestVersion = (template: EmailTemplate) => template.versions[template.versions.length - 1];
+
+function VersionDiff({ label, before, after }: { label: string; before: string; after: string }) {
+  const lines = diffLines(before, after);
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-slate-500 uppercase tracking-wide">{label}</p>
+      <pre className="text-xs font-mono bg-slate-50 border border-slate-200 rounded p-2 max-h-64 overflow-auto whitespace-pre-wrap">
+        {lines.map((line, index) => (
+          <div
+            key={index}
+            className={line.type === "added" ? "bg-green-100 text-green-800" : line.type === "removed" ? "bg-red-100 text-red-800" : "text-slate-600"}
+          >
+            {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}{line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+// Picks a saved template into the compose form, saves the form as a template, and
+// shows a template's version history with diffs against the current version.
+export default function TemplatePicker({ subject, content, onApply }: {
+  subject: string;
+  content: string;
+  onApply: (subject: string, content: string) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState<number | null>(null);
+
+  const { data: templates } = useQuery<EmailTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
+
+  const selected = templates?.find(template => template.id === selectedId);
+
+  const onTemplateSaved = (template: EmailTemplate, title: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+    setSelectedId(template.id);
+    toast({ title, description: `${template.name} is now at version ${latestVersion(template).version}.` });
+  };
+
+  const onError = (error: any) => {
+    toast({ title: "Template action failed", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/templates', { name: newName.trim(), subject, content });
+      return res.json() as Promise<EmailTemplate>;
+    },
+    onSuccess: (template) => {
+      onTemplateSaved(template, "Template saved");
+      setShowSaveDialog(false);
+      setNewName("");
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PUT', `/api/templates/${selectedId}`, { subject, content });
+      return res.json() as Promise<EmailTemplate>;
+    },
+    onSuccess: (template) => onTemplateSaved(template, "Template updated"),
+    onError,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const res = await apiRequest('POST', `/api/templates/${selectedId}/restore/${version}`);
+      return res.json() as Promise<EmailTemplate>;
+    },
+    onSuccess: (template) => {
+      onTemplateSaved(template, "Version restored");
+      const current = latestVersion(template);
+      onApply(current.subject, current.content);
+      setHistoryVersion(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('DELETE', `/api/templates/${selectedId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      setSelectedId("");
+    },
+    onError,
+  });
+
+  const pickTemplate = (id: string) => {
+    setSelectedId(id);
+    const template = templates?.find(t => t.id === id);
+    if (template) {
+      const current = latestVersion(template);
+      onApply(current.subject, current.content);
+    }
+  };
+
+  const current = selected ? latestVersion(selected) : null;
+  const compared: TemplateVersion | undefined = selected?.versions.find(v => v.version === historyVersion);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" data-testid="template-picker">
+      <BookOpen className="h-3 w-3 text-slate-500" />
+      <Select value={selectedId} onValueChange={pickTemplate}>
+        <SelectTrigger className="w-56 h-8 text-xs border-slate-300" data-testid="select-template">
+          <SelectValue placeholder={templates && templates.length > 0 ? "Load a saved template" : "No saved templates"} />
+        </SelectTrigger>
+        <SelectContent>
+          {templates?.map(template => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name} (v{latestVersion(template).version})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="button" variant="outline" size="sm" className="h-8 text-xs" disabled={!subject || !content} onClick={() => setShowSaveDialog(true)}>
+        <Save className="h-3 w-3 mr-1" /> Save as Template
+      </Button>
+      {selected && (
+        <>
+          <Button type="button" variant="outline" size="sm" className="h-8 text-xs" disabled={!subject || !content || updateMutation.isPending} onClick={() => updateMutation.mutate()}>
+            {updateMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <><Save className="h-3 w-3 mr-1" /> Save Version</>}
+          </Button>
+          <Button type="button" variant="outline" size="sm" className="h-8 text-xs" onClick={() => { setHistoryVersion(null); setShowHistory(true); }}>
+            <History className="h-3 w-3 mr-1" /> History
+          </Button>
+          <Button type="button" variant="ghost" size="sm" className="h-8 text-xs text-red-600 hover:bg-red-50" disabled={deleteMutation.isPending} onClick={() => deleteMutation.mutate()}>
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </>
+      )}
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save as Template</DialogTitle>
+            <DialogDescription>Stores the current subject and content under a name.</DialogDescription>
+          </DialogHeader>
+          <Input placeholder="Template name" value={newName} onChange={(e) => setNewName(e.target.value)} data-testid="input-template-name" />
+          <div className="flex justify-end">
+            <Button type="button" disabled={!newName.trim() || createMutation.isPending} onClick={() => createMutation.mutate()}>
+              {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showHistory} onOpenChange={setShowHistory}>
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-auto">
+          <DialogHeader>
+            <DialogTitle>Version History - {selected?.name}</DialogTitle>
+            <DialogDescription>Pick an earlier version to compare it with the current one.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {selected && [...selected.versions].reverse().map(version => (
+              <div key={version.version} className="flex items-center justify-between text-sm border-b border-slate-100 pb-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">v{version.version}</Badge>
+                  <span className="text-slate-600">{new Date(version.createdAt).toLocaleString()}</span>
+                  {version.version === current?.version && <Badge className="bg-green-100 text-green-800">Current</Badge>}
+                </div>
+                {version.version !== current?.version && (
+                  <div className="flex items-center gap-2">
+                    <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={() => setHistoryVersion(version.version)}>
+                      Compare
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={() => onApply(version.subject, version.content)}>
+                      Use in Form
+                    </Button>
+                    <Button type="button" size="sm" className="h-7 text-xs" disabled={restoreMutation.isPending} onClick={() => restoreMutation.mutate(version.version)}>
+                      <RotateCcw className="h-3 w-3 mr-1" /> Restore
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {compared && current && (
+            <div className="space-y-3">
+              <p className="text-sm font-medium text-slate-700">v{compared.version} → v{current.version}</p>
+              <VersionDiff label="Subject" before={compared.subject} after={current.subject} />
+              <VersionDiff label="Content" before={compared.content} after={current.content} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Copy, ExternalLink, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type ZohoRegion } from "@shared/schema";
+import RegionSelect from "./RegionSelect";
+
+type OAuthConfig = { redirectUri: string; scopes: string };
+
+const emptyConnection = { name: "", client_id: "", client_secret: "", fromAddress: "", region: "com" as ZohoRegion };
+
+// Adds an account through Zoho's consent screen: the server keeps the client details,
+// sends the browser to Zoho, and stores the account when Zoho redirects back.
+export default function ZohoConnect() {
+  const { toast } = useToast();
+  const [values, setValues] = useState(emptyConnection);
+
+  const { data: config } = useQuery<OAuthConfig>({
+    queryKey: ['/api/oauth/zoho/config'],
+    staleTime: Infinity,
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/oauth/zoho/start', {
+        name: values.name.trim(),
+        client_id: values.client_id.trim(),
+        client_secret: values.client_secret.trim(),
+        fromAddress: values.fromAddress.trim() || undefined,
+        region: values.region,
+      });
+      return res.json() as Promise<{ authorizeUrl: string }>;
+    },
+    onSuccess: ({ authorizeUrl }) => {
+      window.location.href = authorizeUrl;
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not start Zoho authorization", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyRedirectUri = () => {
+    if (!config) return;
+    navigator.clipboard.writeText(config.redirectUri);
+    toast({ title: "Redirect URI copied" });
+  };
+
+  const canStart = values.name.trim() && values.client_id.trim() && values.client_secret.trim();
+
+  return (
+    <div className="space-y-3">
+      {config && (
+        <div className="text-xs text-muted-foreground space-y-1 bg-slate-50 border border-slate-200 rounded p-3">
+          <p>Register this redirect URI for your client in the Zoho API console:</p>
+          <div className="flex items-center gap-2">
+            <code className="font-mono text-slate-700 break-all">{config.redirectUri}</code>
+            <Button type="button" variant="ghost" size="sm" className="h-6 px-2" onClick={copyRedirectUri}>
+              <Copy className="h-3 w-3" />
+            </Button>
+          </div>
+          <p>Scopes requested: <span className="font-mono">{config.scopes}</span></p>
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>Account Name</Label>
+          <Input placeholder="e.g., My Personal Account" value={values.name} onChange={(e) => setValues({ ...values, name: e.target.value })} data-testid="input-connect-name" />
+        </div>
+        <div className="space-y-1">
+          <Label>Default Sender (optional)</Label>
+          <Input placeholder="Defaults to the first Zoho sub-account" value={values.fromAddress} onChange={(e) => setValues({ ...values, fromAddress: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label>Zoho Region</Label>
+          <RegionSelect value={values.region} onValueChange={(region) => setValues({ ...values, region })} />
+        </div>
+        <div className="space-y-1">
+          <Label>Client ID</Label>
+          <Input placeholder="Your Zoho Client ID" value={values.client_id} onChange={(e) => setValues({ ...values, client_id: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label>Client Secret</Label>
+          <Input type="password" placeholder="Your Zoho Client Secret" value={values.client_secret} onChange={(e) => setValues({ ...values, client_secret: e.target.value })} />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button type="button" disabled={!canStart || startMutation.isPending} onClick={() => startMutation.mutate()} data-testid="button-connect-zoho">
+          {startMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <><ExternalLink className="h-4 w-4 mr-2" /> Connect with Zoho</>}
+        </Button>
+      </div>
+    </div>
+  );
+}
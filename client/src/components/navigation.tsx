@@ -1,16 +1,33 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Mail, Send, Users, BarChart3, CheckCircle, XCircle, Activity, Plus } from "lucide-react";
+import { Mail, Send, Users, BarChart3, CheckCircle, XCircle, Activity, Plus, CalendarClock, History, Inbox } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
 import { type EmailResult } from "@shared/schema";
 import AccountManager from "./AccountManager";
 
 export default function Navigation() {
   const [location] = useLocation();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  // The Zoho OAuth callback redirects back here with the outcome in the query string.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const connected = params.get('oauth_connected');
+    const error = params.get('oauth_error');
+    if (!connected && !error) return;
+    if (connected) {
+      toast({ title: "Zoho account connected", description: `${connected} has been added.` });
+    } else {
+      toast({ title: "Zoho connection failed", description: error, variant: "destructive" });
+    }
+    setIsDialogOpen(true);
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
 
   const { data: results } = useQuery<EmailResult[]>({
     queryKey: ['/api/bulk-results'],
@@ -119,6 +136,48 @@ export default function Navigation() {
                 Bounce Stats
               </Button>
             </Link>
+            <Link href="/scheduled">
+              <Button
+                variant={isActive("/scheduled") ? "default" : "ghost"}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-300 ${
+                  isActive("/scheduled")
+                    ? "text-white bg-primary hover:bg-blue-600"
+                    : "text-slate-600 hover:text-slate-800 hover:bg-slate-100"
+                }`}
+                data-testid="nav-scheduled"
+              >
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Scheduled
+              </Button>
+            </Link>
+            <Link href="/history">
+              <Button
+                variant={isActive("/history") ? "default" : "ghost"}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-300 ${
+                  isActive("/history")
+                    ? "text-white bg-primary hover:bg-blue-600"
+                    : "text-slate-600 hover:text-slate-800 hover:bg-slate-100"
+                }`}
+                data-testid="nav-history"
+              >
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+            </Link>
+            <Link href="/inbox">
+              <Button
+                variant={isActive("/inbox") ? "default" : "ghost"}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-300 ${
+                  isActive("/inbox")
+                    ? "text-white bg-primary hover:bg-blue-600"
+                    : "text-slate-600 hover:text-slate-800 hover:bg-slate-100"
+                }`}
+                data-testid="nav-inbox"
+              >
+                <Inbox className="h-4 w-4 mr-2" />
+                Inbox
+              </Button>
+            </Link>
             
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
               <DialogTrigger asChild>
@@ -1,10 +1,12 @@
 import React from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { BarChart3, Loader2, RefreshCw } from "lucide-react";
+import { BarChart3, Loader2, MailSearch, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from '@/lib/queryClient';
+import SuppressionList from '@/components/SuppressionList';
 
 // This defines the structure of a single bounce record from our database
 type BounceRecord = {
@@ -13,6 +15,16 @@ type BounceRecord = {
     bounceType: string;
     accountKey: string;
     createdAt: string;
+    mailbox?: string;
+    statusCode?: string;
+    diagnostic?: string;
+};
+
+type BouncePollResult = {
+    mailboxes: number;
+    scanned: number;
+    bounces: BounceRecord[];
+    errors: { mailbox: string; message: string }[];
 };
 
 export default function BounceDashboard() {
@@ -25,6 +37,27 @@ export default function BounceDashboard() {
     }
   });
 
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Bounces are also picked up by the server's background poller; this runs it right away.
+  const pollMutation = useMutation({
+    mutationFn: async (): Promise<BouncePollResult> => {
+      const res = await apiRequest('POST', '/api/bounces/poll');
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: `${result.bounces.length} new bounce(s)`,
+        description: `Checked ${result.mailboxes} mailbox(es)${result.errors.length > 0 ? `, ${result.errors.length} could not be read: ${result.errors[0].message}` : ''}.`,
+        variant: result.errors.length > 0 ? "destructive" : "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/bounces'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Bounce scan failed", description: error.message, variant: "destructive" });
+    },
+  });
+
   // Log the fetched data to the browser console for debugging
   if (bounces) {
     console.log("Fetched Bounces:", bounces);
@@ -44,10 +77,16 @@ export default function BounceDashboard() {
         <Card>
             <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle>Bounce Logs</CardTitle>
-                <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isLoading}>
-                    <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-                    Refresh
-                </Button>
+                <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => pollMutation.mutate()} disabled={pollMutation.isPending} data-testid="button-poll-bounces">
+                        {pollMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <MailSearch className="h-4 w-4 mr-2" />}
+                        Scan Mailboxes
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isLoading}>
+                        <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                        Refresh
+                    </Button>
+                </div>
             </CardHeader>
             <CardContent>
                 {isLoading && (
@@ -67,6 +106,7 @@ export default function BounceDashboard() {
                             <TableRow>
                                 <TableHead>Recipient</TableHead>
                                 <TableHead>Bounce Type</TableHead>
+                                <TableHead>Status</TableHead>
                                 <TableHead>Account Key</TableHead>
                                 <TableHead>Date</TableHead>
                             </TableRow>
@@ -74,7 +114,7 @@ export default function BounceDashboard() {
                         <TableBody>
                             {bounces.length === 0 ? (
                                 <TableRow>
-                                    <TableCell colSpan={4} className="text-center text-slate-400 py-8">
+                                    <TableCell colSpan={5} className="text-center text-slate-400 py-8">
                                         No bounces have been recorded yet.
                                     </TableCell>
                                 </TableRow>
@@ -89,7 +129,14 @@ export default function BounceDashboard() {
                                                 {bounce.bounceType}
                                             </span>
                                         </TableCell>
-                                        <TableCell className="font-mono text-xs">{bounce.accountKey}</TableCell>
+                                        <TableCell className="max-w-xs">
+                                            <div className="font-mono text-xs">{bounce.statusCode || '-'}</div>
+                                            {bounce.diagnostic && <div className="text-xs text-slate-500 truncate" title={bounce.diagnostic}>{bounce.diagnostic}</div>}
+                                        </TableCell>
+                                        <TableCell className="font-mono text-xs">
+                                            {bounce.accountKey}
+                                            {bounce.mailbox && <div className="font-sans text-slate-500">{bounce.mailbox}</div>}
+                                        </TableCell>
                                         <TableCell>{new Date(bounce.createdAt).toLocaleString()}</TableCell>
                                     </TableRow>
                                 ))
@@ -99,6 +146,10 @@ export default function BounceDashboard() {
                 )}
             </CardContent>
         </Card>
+
+        <div className="mt-6">
+          <SuppressionList />
+        </div>
       </div>
     </div>
   );
@@ -7,100 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Loader2, CheckCircle, XCircle, Mail, ArrowLeft, Download, Code, Eye, Activity, BarChart3 } from "lucide-react";
 import { type EmailResult } from "@shared/schema";
-
-function ResponseCodePopup({ result }: { result: EmailResult }) {
-  return (
-    <Dialog>
-      <DialogTrigger asChild>
-        <Button
-          variant="outline"
-          size="sm"
-          className={`px-3 py-1 text-xs font-mono ${
-            result.status === 'Success' 
-              ? 'text-green-700 border-green-300 hover:bg-green-50' 
-              : 'text-red-700 border-red-300 hover:bg-red-50'
-          }`}
-          data-testid={`button-response-code-${result.recipient}`}
-        >
-          <Code className="h-3 w-3 mr-1" />
-          {result.responseCode || 'N/A'}
-        </Button>
-      </DialogTrigger>
-      <DialogContent className="max-w-3xl max-h-[70vh] overflow-auto">
-        <DialogHeader>
-          <DialogTitle className="flex items-center">
-            <Activity className="h-5 w-5 mr-2" />
-            Full Response Details - {result.recipient}
-          </DialogTitle>
-        </DialogHeader>
-        <div className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <div className="flex items-center text-sm font-medium text-slate-700">
-                <Mail className="h-4 w-4 mr-2" />
-                Recipient
-              </div>
-              <p className="text-sm text-slate-600 font-mono bg-slate-100 p-2 rounded">
-                {result.recipient}
-              </p>
-            </div>
-            <div className="space-y-2">
-              <div className="flex items-center text-sm font-medium text-slate-700">
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Status
-              </div>
-              <Badge className={`${
-                result.status === 'Success' 
-                  ? 'bg-green-100 text-green-800' 
-                  : 'bg-red-100 text-red-800'
-              }`}>
-                {result.status}
-              </Badge>
-            </div>
-          </div>
-          
-          <div className="space-y-2">
-            <div className="flex items-center text-sm font-medium text-slate-700">
-              <Code className="h-4 w-4 mr-2" />
-              Response Code
-            </div>
-            <p className={`text-sm font-mono p-2 rounded ${
-              result.status === 'Success' 
-                ? 'bg-green-100 text-green-800' 
-                : 'bg-red-100 text-red-800'
-            }`}>
-              {result.responseCode || 'N/A'}
-            </p>
-          </div>
-
-          {result.messageId && (
-            <div className="space-y-2">
-              <div className="flex items-center text-sm font-medium text-slate-700">
-                <Mail className="h-4 w-4 mr-2" />
-                Message ID
-              </div>
-              <p className="text-sm text-slate-600 font-mono bg-slate-100 p-2 rounded break-all">
-                {result.messageId}
-              </p>
-            </div>
-          )}
-
-          <div className="space-y-2">
-            <div className="flex items-center text-sm font-medium text-slate-700">
-              <Eye className="h-4 w-4 mr-2" />
-              Full Zoho Response
-            </div>
-            <div className="bg-slate-900 text-green-400 p-4 rounded-lg overflow-auto max-h-64">
-              <pre className="text-xs whitespace-pre-wrap">
-                {JSON.stringify(result.fullResponse, null, 2)}
-              </pre>
-            </div>
-          </div>
-        </div>
-      </DialogContent>
-    </Dialog>
-  );
-}
+import ResponseCodePopup from "@/components/ResponseCodePopup";
 
 export default function BulkResults() {
   const [, setLocation] = useLocation();
@@ -11,10 +11,24 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Send, Mail, User, Users, Type, Edit3, Upload, CheckCircle, XCircle, Code, Eye, Activity, BarChart3, Filter, Download, Search, Trash2, AlertTriangle, Copy, AtSign, Pause, Play, Square } from "lucide-react";
-import { bulkEmailSchema, type BulkEmail, type EmailAccount, type EmailResult } from "@shared/schema";
+import { Loader2, Send, Mail, User, Users, Type, Edit3, Upload, CheckCircle, XCircle, Code, Eye, Activity, BarChart3, Filter, Download, Search, Trash2, AlertTriangle, Copy, AtSign, Pause, Play, Square, Ban, MailOpen } from "lucide-react";
+import { bulkEmailSchema, type Attachment, type BulkEmail, type PublicEmailAccount, type EmailResult, type Campaign, type ScheduledJob } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import SendQuota from "@/components/SendQuota";
+import ResponseCodePopup from "@/components/ResponseCodePopup";
+import EmailEditor from "@/components/EmailEditor";
+import EmailPreview from "@/components/EmailPreview";
+import TemplatePicker from "@/components/TemplatePicker";
+import ScheduleFields, { emptySchedule, scheduleRequestFields, type ScheduleValue } from "@/components/ScheduleFields";
+import BodyFormatFields from "@/components/BodyFormatFields";
+import MessageOptionsFields, { emptyMessageOptions } from "@/components/MessageOptionsFields";
+import AttachmentPicker, { attachmentRequestFields } from "@/components/AttachmentPicker";
+import SenderRotationFields, { emptyRotation, rotationRequestFields, type RotationValue } from "@/components/SenderRotationFields";
+import { formatInTimeZone } from "@shared/schedule";
+import { textPart } from "@shared/html-to-text";
+import { parseRecipientTable, mergeRenderer, fieldsForRecipient, extractMergeFields, mergeDataKey, type MergeFields } from "@shared/merge";
 
 const zohoSubAccountSchema = z.object({
   account_key: z.string(),
@@ -29,116 +43,24 @@ const zohoSubAccountSchema = z.object({
 
 type ZohoSubAccount = z.infer<typeof zohoSubAccountSchema>;
 
-function ResponseCodePopup({ result }: { result: EmailResult }) {
-  return (
-    <Dialog>
-      <DialogTrigger asChild>
-        <Button
-          variant="outline"
-          size="sm"
-          className={`px-3 py-1 text-xs font-mono ${
-            result.status === 'Success'
-              ? 'text-green-700 border-green-300 hover:bg-green-50'
-              : 'text-red-700 border-red-300 hover:bg-red-50'
-          }`}
-          data-testid={`button-response-code-${result.recipient}`}
-        >
-          <Code className="h-3 w-3 mr-1" />
-          {result.responseCode || 'N/A'}
-        </Button>
-      </DialogTrigger>
-      <DialogContent className="max-w-3xl max-h-[70vh] overflow-auto">
-        <DialogHeader>
-          <DialogTitle className="flex items-center">
-            <Activity className="h-5 w-5 mr-2" />
-            Full Response Details - {result.recipient}
-          </DialogTitle>
-        </DialogHeader>
-        <div className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <div className="flex items-center text-sm font-medium text-slate-700">
-                <Mail className="h-4 w-4 mr-2" />
-                Recipient
-              </div>
-              <p className="text-sm text-slate-600 font-mono bg-slate-100 p-2 rounded">
-                {result.recipient}
-              </p>
-            </div>
-            <div className="space-y-2">
-              <div className="flex items-center text-sm font-medium text-slate-700">
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Status
-              </div>
-              <Badge className={`${
-                result.status === 'Success'
-                  ? 'bg-green-100 text-green-800'
-                  : 'bg-red-100 text-red-800'
-              }`}>
-                {result.status}
-              </Badge>
-            </div>
-          </div>
-          
-          <div className="space-y-2">
-            <div className="flex items-center text-sm font-medium text-slate-700">
-              <Code className="h-4 w-4 mr-2" />
-              Response Code
-            </div>
-            <p className={`text-sm font-mono p-2 rounded ${
-              result.status === 'Success'
-                ? 'bg-green-100 text-green-800'
-                : 'bg-red-100 text-red-800'
-            }`}>
-              {result.responseCode || 'N/A'}
-            </p>
-          </div>
-
-          {result.messageId && (
-            <div className="space-y-2">
-              <div className="flex items-center text-sm font-medium text-slate-700">
-                <Mail className="h-4 w-4 mr-2" />
-                Message ID
-              </div>
-              <p className="text-sm text-slate-600 font-mono bg-slate-100 p-2 rounded break-all">
-                {result.messageId}
-              </p>
-            </div>
-          )}
-
-          <div className="space-y-2">
-            <div className="flex items-center text-sm font-medium text-slate-700">
-              <Eye className="h-4 w-4 mr-2" />
-              Full Zoho Response
-            </div>
-            <div className="bg-slate-900 text-green-400 p-4 rounded-lg overflow-auto max-h-64">
-              <pre className="text-xs whitespace-pre-wrap">
-                {JSON.stringify(result.fullResponse, null, 2)}
-              </pre>
-            </div>
-          </div>
-        </div>
-      </DialogContent>
-    </Dialog>
-  );
-}
-
 export default function BulkSend() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showResults, setShowResults] = useState(false);
-  const [currentResults, setCurrentResults] = useState<EmailResult[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const isPaused = useRef(false);
-  const isEnded = useRef(false);
-  const [isPausedState, setIsPausedState] = useState(false);
-  const [currentRecipientIndex, setCurrentRecipientIndex] = useState(0);
-  const [statusFilter, setStatusFilter] = useState<'all' | 'Success' | 'Failed'>('all');
+  const [campaignId, setCampaignId] = useState<string | null>(null);
+  const lastCampaignStatus = useRef<Campaign['status'] | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'all' | EmailResult['status']>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [showEmailPreview, setShowEmailPreview] = useState(false);
   const [selectedPrimaryAccountKey, setSelectedPrimaryAccountKey] = useState<string | null>(null);
-
-  const { data: primaryAccounts, isLoading: primaryAccountsLoading } = useQuery<EmailAccount[]>({
+  const [mergeColumns, setMergeColumns] = useState<string[]>([]);
+  const [schedule, setSchedule] = useState<ScheduleValue>(emptySchedule);
+  const [rotation, setRotation] = useState<RotationValue>(emptyRotation);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [previewRecipient, setPreviewRecipient] = useState<string>('');
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: primaryAccounts, isLoading: primaryAccountsLoading } = useQuery<PublicEmailAccount[]>({
     queryKey: ['/api/accounts']
   });
 
@@ -163,6 +85,47 @@ export default function BulkSend() {
     enabled: showResults,
   });
 
+  // Campaigns run on the server, so on page load we re-attach to one that is still active.
+  const { data: campaigns } = useQuery<Campaign[]>({
+    queryKey: ['/api/campaigns'],
+  });
+
+  const { data: campaign } = useQuery<Campaign>({
+    queryKey: ['/api/campaigns', campaignId],
+    enabled: !!campaignId,
+    refetchInterval: (query) => query.state.data?.status === 'running' ? 1000 : false,
+  });
+
+  useEffect(() => {
+    if (campaignId || !campaigns) return;
+    const activeCampaign = campaigns.find(c => c.status === 'running' || c.status === 'paused');
+    if (activeCampaign) {
+      setCampaignId(activeCampaign.id);
+      setShowResults(true);
+    }
+  }, [campaigns, campaignId]);
+
+  useEffect(() => {
+    if (!campaign) return;
+    const previousStatus = lastCampaignStatus.current;
+    lastCampaignStatus.current = campaign.status;
+    const isFinished = campaign.status === 'completed' || campaign.status === 'cancelled';
+    if (isFinished && (previousStatus === 'running' || previousStatus === 'paused')) {
+      queryClient.invalidateQueries({ queryKey: ['/api/bulk-results'] });
+      toast({
+        title: campaign.status === 'completed' ? "Bulk email process completed!" : "Bulk email job ended",
+        description: `Processed ${campaign.recipients.filter(r => r.status !== 'pending').length} recipients`,
+      });
+    }
+  }, [campaign, queryClient, toast]);
+
+  const currentResults = useMemo(
+    () => (campaign?.recipients || []).flatMap(entry => entry.result ? [entry.result] : []),
+    [campaign],
+  );
+  const isProcessing = campaign?.status === 'running' || campaign?.status === 'paused';
+  const isPausedState = campaign?.status === 'paused';
+
   const filteredResults = useMemo(() => {
     let filtered = [...(currentResults.length > 0 ? currentResults : results || [])];
     
@@ -182,14 +145,22 @@ export default function BulkSend() {
     return filtered;
   }, [currentResults, results, statusFilter, searchTerm]);
 
+  // Opens among the tracked messages that went out.
+  const openStats = useMemo(() => {
+    const tracked = (currentResults.length > 0 ? currentResults : results || []).filter(result => result.trackingToken && result.status === 'Success');
+    return { tracked: tracked.length, opened: tracked.filter(result => (result.opens?.count ?? 0) > 0).length };
+  }, [currentResults, results]);
+
   const exportToCSV = () => {
-    const headers = ['#', 'Recipient', 'Status', 'Message ID', 'Response Code', 'Error'];
+    const headers = ['#', 'Recipient', 'Sender', 'Status', 'Message ID', 'Response Code', 'Opens', 'Error'];
     const csvData = filteredResults.map((result, index) => [
       index + 1,
       result.recipient,
+      result.fromAddress || 'N/A',
       result.status,
       result.messageId || 'N/A',
       result.responseCode || 'N/A',
+      result.trackingToken ? result.opens?.count ?? 0 : 'N/A',
       result.error || 'N/A'
     ]);
     
@@ -216,12 +187,16 @@ export default function BulkSend() {
       recipients: "",
       subject: "",
       content: "",
+      mailFormat: "html",
+      trackOpens: false,
+      ...emptyMessageOptions(),
     },
   });
 
   useEffect(() => {
-    if (primaryAccounts && primaryAccounts.length > 0 && !selectedPrimaryAccountKey) {
-      setSelectedPrimaryAccountKey(primaryAccounts[0].account_key);
+    const firstEnabled = primaryAccounts?.find(account => account.enabled);
+    if (firstEnabled && !selectedPrimaryAccountKey) {
+      setSelectedPrimaryAccountKey(firstEnabled.account_key);
     }
   }, [primaryAccounts, selectedPrimaryAccountKey]);
 
@@ -265,87 +240,62 @@ export default function BulkSend() {
 
   const recipientCount = emailAnalysis.total;
 
-  const sendEmailsProgressively = async (formData: BulkEmail) => {
-    setIsProcessing(true);
-    setShowResults(true);
-    setCurrentResults([]);
-    setCurrentRecipientIndex(0);
-    isPaused.current = false;
-    setIsPausedState(false);
-    isEnded.current = false;
-
-    const recipientList = formData.recipients.split('\n').map(email => email.trim()).filter(email => email);
-    const tempResults: EmailResult[] = [];
-
-    for (let i = 0; i < recipientList.length; i++) {
-      // Pause/End logic
-      while (isPaused.current && !isEnded.current) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-      if (isEnded.current) break;
-
-      setCurrentRecipientIndex(i + 1);
-      
-      try {
-        const singleEmailData = {
-          primaryAccountKey: selectedPrimaryAccountKey,
-          accountSelect: formData.accountSelect,
-          toAddress: recipientList[i],
-          subject: formData.subject,
-          content: formData.content,
-        };
-
-        const res = await apiRequest('POST', '/api/send-single-email', singleEmailData);
-        const result = await res.json();
-
-        const emailResult: EmailResult = {
-          recipient: recipientList[i],
-          status: result.success ? 'Success' : 'Failed',
-          messageId: result.messageId || null,
-          responseCode: result.responseCode || null,
-          error: result.success ? null : result.error,
-          fullResponse: result.fullResponse || null,
-        };
-
-        tempResults.push(emailResult);
-        setCurrentResults([...tempResults]);
-
-        await new Promise(resolve => setTimeout(resolve, 500));
-
-      } catch (error: any) {
-        const emailResult: EmailResult = {
-          recipient: recipientList[i],
-          status: 'Failed',
-          messageId: null,
-          responseCode: 500,
-          error: error.message,
-          fullResponse: error,
-        };
-        tempResults.push(emailResult);
-        setCurrentResults([...tempResults]);
-      }
-    }
+  const subject = form.watch("subject");
+  const content = form.watch("content");
+  const mergeData = form.watch("mergeData");
+  const mailFormat = form.watch("mailFormat");
+  const textContent = form.watch("textContent");
+  const previewAddress = emailAnalysis.valid.includes(previewRecipient) ? previewRecipient : emailAnalysis.valid[0] || '';
+  const preview = useMemo(() => {
+    const fields = fieldsForRecipient(previewAddress, mergeData);
+    const render = mergeRenderer(fields);
+    return { subject: render(subject || ''), content: render(content || '', 'html'), textContent: textPart({ content: content || '', textContent }, render) };
+  }, [previewAddress, mergeData, subject, content, textContent]);
+  const missingMergeFields = useMemo(
+    () => extractMergeFields(`${subject || ''} ${content || ''} ${textContent || ''}`).filter(name => name !== 'email' && !mergeColumns.includes(name)),
+    [subject, content, textContent, mergeColumns],
+  );
 
-    setIsProcessing(false);
-    
-    try {
-      await apiRequest('POST', '/api/store-bulk-results', { results: tempResults });
-    } catch (error) {
-      console.log('Note: Could not store results for stats');
-    }
-    
-    queryClient.invalidateQueries({ queryKey: ['/api/bulk-results'] });
-    
-    toast({
-      title: "Bulk email process completed!",
-      description: `Processed ${tempResults.length} recipients`,
-    });
-  };
+  // Recipients on the suppression list are skipped by the server; flag them before sending.
+  // With sender rotation every primary account in the rotation can end up sending.
+  const suppressionAccountKeys = useMemo(() => {
+    const rotationSenders = rotationRequestFields(rotation).senders;
+    if (rotationSenders) return Array.from(new Set(rotationSenders.map(sender => sender.accountKey)));
+    return selectedPrimaryAccountKey ? [selectedPrimaryAccountKey] : [];
+  }, [rotation, selectedPrimaryAccountKey]);
+  const { data: suppressedRecipients } = useQuery<{ recipient: string; reason: string }[]>({
+    queryKey: ['/api/suppressions/check', suppressionAccountKeys, emailAnalysis.valid],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/suppressions/check', { accountKeys: suppressionAccountKeys, emails: emailAnalysis.valid });
+      return res.json();
+    },
+    enabled: suppressionAccountKeys.length > 0 && emailAnalysis.valid.length > 0,
+  });
+  const suppressedCount = emailAnalysis.valid.length > 0 ? suppressedRecipients?.length || 0 : 0;
 
   const sendBulkEmailMutation = useMutation({
-    mutationFn: sendEmailsProgressively,
+    mutationFn: async (formData: BulkEmail) => {
+      const payload = { ...formData, primaryAccountKey: selectedPrimaryAccountKey, ...rotationRequestFields(rotation), ...attachmentRequestFields(attachments), ...scheduleRequestFields(schedule) };
+      const res = await apiRequest('POST', '/api/campaigns', payload);
+      return res.json() as Promise<Campaign | { scheduled: true; job: ScheduledJob }>;
+    },
+    onSuccess: (response) => {
+      if ('scheduled' in response) {
+        toast({
+          title: "Bulk email scheduled",
+          description: `The campaign starts ${formatInTimeZone(response.job.runAt, response.job.timeZone)}.`,
+        });
+        setSchedule(emptySchedule());
+        return;
+      }
+      const newCampaign = response;
+      lastCampaignStatus.current = null;
+      queryClient.setQueryData(['/api/campaigns', newCampaign.id], newCampaign);
+      queryClient.invalidateQueries({ queryKey: ['/api/campaigns'], exact: true });
+      setCampaignId(newCampaign.id);
+      setShowResults(true);
+    },
     onError: (error: any) => {
-      setIsProcessing(false);
       toast({
         title: "Failed to send bulk emails",
         description: error.message,
@@ -354,6 +304,23 @@ export default function BulkSend() {
     },
   });
 
+  const campaignActionMutation = useMutation({
+    mutationFn: async (action: 'pause' | 'resume' | 'cancel') => {
+      const res = await apiRequest('POST', `/api/campaigns/${campaignId}/${action}`);
+      return res.json() as Promise<Campaign>;
+    },
+    onSuccess: (updatedCampaign) => {
+      queryClient.setQueryData(['/api/campaigns', updatedCampaign.id], updatedCampaign);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update the bulk email job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: BulkEmail) => {
     // Keep all emails, including duplicates and invalid ones, for processing
     const emailList = recipients.split('\n').map(email => email.trim()).filter(email => email.length > 0);
@@ -376,11 +343,37 @@ export default function BulkSend() {
       accountSelect: '',
       recipients: '',
       subject: '',
-      content: ''
+      content: '',
+      mailFormat: 'html',
+      trackOpens: false,
+      ...emptyMessageOptions(),
     });
+    form.setValue('mergeData', undefined);
+    setMergeColumns([]);
     setShowEmailPreview(false);
   };
 
+  // Reads a CSV/TSV file: the email column fills the recipient list, every column becomes a merge field.
+  const importRecipientFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const table = parseRecipientTable(await file.text());
+      const mergeData: Record<string, MergeFields> = {};
+      table.rows.forEach(row => { mergeData[mergeDataKey(row.email)] = row; });
+      form.setValue('recipients', table.rows.map(row => row.email).join('\n'), { shouldValidate: true });
+      form.setValue('mergeData', mergeData);
+      setMergeColumns(table.columns);
+      toast({
+        title: "Recipients imported",
+        description: `${table.rows.length} rows, merge fields: ${table.columns.join(', ')}`,
+      });
+    } catch (error: any) {
+      toast({ title: "Could not import file", description: error.message, variant: "destructive" });
+    }
+  };
+
   const removeInvalidEmails = () => {
     const emailList = recipients.split('\n').map(email => email.trim()).filter(email => email.length > 0);
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -389,6 +382,12 @@ export default function BulkSend() {
     form.setValue('recipients', uniqueValidEmails.join('\n'));
   };
 
+  const removeSuppressed = () => {
+    const suppressed = new Set((suppressedRecipients || []).map(entry => entry.recipient));
+    const emails = recipients.split('\n').map(email => email.trim()).filter(email => email.length > 0 && !suppressed.has(email));
+    form.setValue('recipients', emails.join('\n'));
+  };
+
   const removeDuplicates = () => {
     const emails = recipients.split('\n').map(email => email.trim()).filter(email => email.length > 0);
     const uniqueEmails = Array.from(new Set(emails));
@@ -436,8 +435,8 @@ export default function BulkSend() {
                     </FormControl>
                     <SelectContent>
                       {primaryAccounts?.map((account) => (
-                        <SelectItem key={account.account_key} value={account.account_key}>
-                          {account.name}
+                        <SelectItem key={account.account_key} value={account.account_key} disabled={!account.enabled}>
+                          {account.name}{account.enabled ? '' : ' (disabled)'}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -474,11 +473,14 @@ export default function BulkSend() {
                           )}
                         </SelectContent>
                       </Select>
+                      <SendQuota accountKey={selectedPrimaryAccountKey} fromAddress={field.value} />
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
+                <SenderRotationFields accounts={primaryAccounts || []} value={rotation} onChange={setRotation} />
+
                 {/* Recipients */}
                 <FormField
                   control={form.control}
@@ -504,6 +506,19 @@ export default function BulkSend() {
                               Fix Invalid ({emailAnalysis.invalid.length})
                             </Button>
                           )}
+                          {suppressedCount > 0 && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={removeSuppressed}
+                              className="h-6 px-2 text-xs text-amber-600 hover:bg-amber-50"
+                              data-testid="button-remove-suppressed"
+                            >
+                              <Ban className="h-3 w-3 mr-1" />
+                              Remove Suppressed ({suppressedCount})
+                            </Button>
+                          )}
                           {emailAnalysis.duplicates.length > 0 && (
                             <Button
                               type="button"
@@ -564,14 +579,28 @@ recipient2@example.com"
                               <span className="text-orange-600 font-medium">{emailAnalysis.duplicates.length} Duplicates</span>
                             </div>
                           )}
+                          {suppressedCount > 0 && (
+                            <div className="flex items-center space-x-1">
+                              <Ban className="h-3 w-3 text-amber-600" />
+                              <span className="text-amber-600 font-medium">{suppressedCount} Suppressed</span>
+                            </div>
+                          )}
                         </div>
                       )}
                       <div className="mt-2 flex items-center justify-between">
                         <FormMessage />
+                        <input
+                          ref={csvInputRef}
+                          type="file"
+                          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                          className="hidden"
+                          onChange={importRecipientFile}
+                        />
                         <Button
                           type="button"
                           variant="ghost"
                           size="sm"
+                          onClick={() => csvInputRef.current?.click()}
                           className="text-primary hover:text-blue-600 text-sm font-medium transition-colors"
                           data-testid="button-import-csv"
                         >
@@ -579,10 +608,29 @@ recipient2@example.com"
                           Import from CSV
                         </Button>
                       </div>
+                      {mergeColumns.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1 text-xs text-slate-500" data-testid="text-merge-fields">
+                          <span>Merge fields:</span>
+                          {mergeColumns.map(column => (
+                            <code key={column} className="bg-slate-100 text-slate-700 px-1.5 py-0.5 rounded">{`{{${column}}}`}</code>
+                          ))}
+                          <span>Use <code className="bg-slate-100 px-1 rounded">{'{{first_name | "there"}}'}</code> for a default.</span>
+                        </div>
+                      )}
                     </FormItem>
                   )}
                 />
 
+                {/* Saved templates */}
+                <TemplatePicker
+                  subject={subject || ''}
+                  content={content || ''}
+                  onApply={(newSubject, newContent) => {
+                    form.setValue('subject', newSubject, { shouldValidate: true });
+                    form.setValue('content', newContent, { shouldValidate: true });
+                  }}
+                />
+
                 {/* Subject */}
                 <FormField
                   control={form.control}
@@ -617,19 +665,72 @@ recipient2@example.com"
                         Content
                       </FormLabel>
                       <FormControl>
-                        <Textarea
-                          placeholder="Email message..."
-                          rows={6}
-                          className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm resize-y"
-                          data-testid="textarea-bulk-content"
-                          {...field}
-                        />
+                        <div>
+                          <EmailEditor
+                            value={field.value}
+                            onChange={field.onChange}
+                            subject={subject || ''}
+                            placeholder="Email message..."
+                            testId="editor-bulk-content"
+                          />
+                        </div>
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
+                <BodyFormatFields />
+
+                {/* Preview, rendered for one recipient */}
+                {showEmailPreview && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-medium text-slate-600">Preview for</span>
+                      <Select value={previewAddress} onValueChange={setPreviewRecipient}>
+                        <SelectTrigger className="w-64 h-8 text-xs border-slate-300" data-testid="select-preview-recipient">
+                          <SelectValue placeholder="No recipients yet" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {emailAnalysis.valid.slice(0, 200).map(email => (
+                            <SelectItem key={email} value={email}>{email}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {missingMergeFields.length > 0 && (
+                      <p className="text-xs text-amber-600">
+                        <AlertTriangle className="h-3 w-3 inline mr-1" />
+                        No data for: {missingMergeFields.join(', ')}. These tags render empty unless they have a default.
+                      </p>
+                    )}
+                    <EmailPreview subject={preview.subject} content={preview.content} mailFormat={mailFormat} textContent={preview.textContent} />
+                  </div>
+                )}
+
+                <MessageOptionsFields />
+
+                <AttachmentPicker value={attachments} onChange={setAttachments} />
+
+                <FormField
+                  control={form.control}
+                  name="trackOpens"
+                  render={({ field }) => (
+                    <FormItem>
+                      <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+                        <FormControl>
+                          <Switch checked={!!field.value} onCheckedChange={field.onChange} data-testid="switch-track-opens" />
+                        </FormControl>
+                        <MailOpen className="h-3 w-3" />
+                        Track opens
+                        <span className="font-normal text-slate-400">(adds an invisible image to the HTML body)</span>
+                      </label>
+                    </FormItem>
+                  )}
+                />
+
+                <ScheduleFields value={schedule} onChange={setSchedule} />
+
                 {/* Action Buttons */}
                 <div className="flex justify-between items-center">
                   <div className="flex items-center space-x-2">
@@ -656,22 +757,22 @@ recipient2@example.com"
                   </div>
                   {isProcessing ? (
                     <div className="flex items-center space-x-2">
+                      <span className="text-xs text-slate-500" data-testid="text-campaign-progress">
+                        {currentResults.length} / {campaign?.recipients.length || 0}
+                      </span>
                       <Button
                         type="button"
                         variant={isPausedState ? "default" : "secondary"}
-                        onClick={() => {
-                          isPaused.current = !isPaused.current;
-                          setIsPausedState(isPaused.current);
-                        }}
+                        disabled={campaignActionMutation.isPending}
+                        onClick={() => campaignActionMutation.mutate(isPausedState ? 'resume' : 'pause')}
                       >
                         {isPausedState ? <><Play className="h-4 w-4 mr-2" /> Resume</> : <><Pause className="h-4 w-4 mr-2" /> Pause</>}
                       </Button>
                       <Button
                         type="button"
                         variant="destructive"
-                        onClick={() => {
-                          isEnded.current = true;
-                        }}
+                        disabled={campaignActionMutation.isPending}
+                        onClick={() => campaignActionMutation.mutate('cancel')}
                       >
                         <Square className="h-4 w-4 mr-2" /> End Job
                       </Button>
@@ -684,7 +785,7 @@ recipient2@example.com"
                       data-testid="button-send-bulk"
                     >
                       <Send className="h-4 w-4 mr-2" />
-                      Send to {emailAnalysis.total} Recipients
+                      {schedule.enabled ? 'Schedule for' : 'Send to'} {emailAnalysis.total} Recipients
                     </Button>
                   )}
                 </div>
@@ -702,6 +803,12 @@ recipient2@example.com"
                 <CardTitle className="text-sm font-medium text-slate-800 flex items-center">
                   <Activity className="h-4 w-4 mr-2" />
                   Email Results ({filteredResults.length} showing)
+                  {openStats.tracked > 0 && (
+                    <span className="ml-3 text-xs font-normal text-slate-500" data-testid="text-open-stats">
+                      <MailOpen className="h-3 w-3 inline mr-1" />
+                      {openStats.opened} / {openStats.tracked} opened ({Math.round((openStats.opened / openStats.tracked) * 100)}%)
+                    </span>
+                  )}
                 </CardTitle>
                 <div className="flex items-center space-x-2">
                   <div className="relative">
@@ -715,14 +822,15 @@ recipient2@example.com"
                     />
                   </div>
                   
-                  <Select value={statusFilter} onValueChange={(value: 'all' | 'Success' | 'Failed') => setStatusFilter(value)}>
-                        <SelectTrigger className="w-24 h-7 text-xs border-slate-300" data-testid="select-status-filter">
+                  <Select value={statusFilter} onValueChange={(value: 'all' | EmailResult['status']) => setStatusFilter(value)}>
+                        <SelectTrigger className="w-28 h-7 text-xs border-slate-300" data-testid="select-status-filter">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="all">All</SelectItem>
                           <SelectItem value="Success">Success</SelectItem>
                           <SelectItem value="Failed">Failed</SelectItem>
+                          <SelectItem value="Suppressed">Suppressed</SelectItem>
                         </SelectContent>
                       </Select>
                   
@@ -762,6 +870,15 @@ recipient2@example.com"
                           
                           <div className="truncate">
                             <p className="font-medium text-slate-800 truncate text-xs">{result.recipient}</p>
+                            {result.fromAddress && <p className="text-slate-500 truncate text-xs">via {result.fromAddress}</p>}
+                            {result.suppressedRecipients && result.suppressedRecipients.length > 0 && (
+                              <p
+                                className="text-amber-600 truncate text-xs"
+                                title={result.suppressedRecipients.map(skipped => `${skipped.field.toUpperCase()} ${skipped.email} (${skipped.reason.replace('_', ' ')})`).join('\n')}
+                              >
+                                {result.suppressedRecipients.length} suppressed left out
+                              </p>
+                            )}
                           </div>
                           
                           <div>
@@ -769,16 +886,30 @@ recipient2@example.com"
                               className={`text-xs px-2 py-1 ${
                                 result.status === 'Success' 
                                   ? 'bg-green-100 text-green-700' 
-                                  : 'bg-red-100 text-red-700'
+                                  : result.status === 'Suppressed'
+                                    ? 'bg-amber-100 text-amber-700'
+                                    : 'bg-red-100 text-red-700'
                               }`}
                             >
                               {result.status === 'Success' ? (
                                 <CheckCircle className="h-3 w-3 mr-1" />
+                              ) : result.status === 'Suppressed' ? (
+                                <Ban className="h-3 w-3 mr-1" />
                               ) : (
                                 <XCircle className="h-3 w-3 mr-1" />
                               )}
                               {result.status}
                             </Badge>
+                            {result.trackingToken && result.status === 'Success' && (
+                              <span
+                                className={`ml-2 text-xs ${(result.opens?.count ?? 0) > 0 ? 'text-indigo-600' : 'text-slate-400'}`}
+                                title={result.opens?.firstOpen ? `First opened ${new Date(result.opens.firstOpen.at).toLocaleString()}, last ${new Date(result.opens.lastOpen!.at).toLocaleString()}` : 'Not opened yet'}
+                                data-testid={`text-opens-${index}`}
+                              >
+                                <MailOpen className="h-3 w-3 inline mr-1" />
+                                {result.opens?.count ?? 0}
+                              </span>
+                            )}
                           </div>
                           
                           <div className="text-xs text-slate-600 font-mono truncate">
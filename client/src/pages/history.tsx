@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, History as HistoryIcon, Loader2, RefreshCw } from "lucide-react";
+import { apiRequest } from '@/lib/queryClient';
+import ResponseCodePopup from '@/components/ResponseCodePopup';
+import { type PublicEmailAccount, type SendLogPage } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+const ALL = 'all';
+
+type Filters = {
+  status: string;
+  source: string;
+  accountKey: string;
+  fromAddress: string;
+  recipient: string;
+  since: string;
+  until: string;
+};
+
+const emptyFilters: Filters = { status: ALL, source: ALL, accountKey: ALL, fromAddress: '', recipient: '', since: '', until: '' };
+
+const statusBadge: Record<string, string> = {
+  Success: 'bg-green-100 text-green-800',
+  Failed: 'bg-red-100 text-red-800',
+  Suppressed: 'bg-amber-100 text-amber-800',
+};
+
+// Reported later by Mail360 webhook events.
+const deliveryBadge: Record<string, string> = {
+  delivered: 'bg-green-50 text-green-700 border-green-200',
+  bounced: 'bg-red-50 text-red-700 border-red-200',
+  complained: 'bg-purple-50 text-purple-700 border-purple-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+};
+
+// The date inputs pick whole days in the browser's time zone.
+const toQueryString = (filters: Filters, page: number) => {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (filters.status !== ALL) params.set('status', filters.status);
+  if (filters.source !== ALL) params.set('source', filters.source);
+  if (filters.accountKey !== ALL) params.set('accountKey', filters.accountKey);
+  if (filters.fromAddress.trim()) params.set('fromAddress', filters.fromAddress.trim());
+  if (filters.recipient.trim()) params.set('recipient', filters.recipient.trim());
+  if (filters.since) params.set('since', new Date(`${filters.since}T00:00:00`).toISOString());
+  if (filters.until) params.set('until', new Date(`${filters.until}T23:59:59.999`).toISOString());
+  return params.toString();
+};
+
+export default function History() {
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [page, setPage] = useState(1);
+
+  const { data: accounts } = useQuery<PublicEmailAccount[]>({
+    queryKey: ['/api/accounts'],
+  });
+
+  const { data: log, isLoading, isFetching, isError, refetch } = useQuery<SendLogPage>({
+    queryKey: ['/api/send-log', filters, page],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/send-log?${toQueryString(filters, page)}`);
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+    setPage(1);
+  };
+
+  const accountName = (accountKey: string) => accounts?.find(account => account.account_key === accountKey)?.name || accountKey;
+  const pageCount = log ? Math.max(1, Math.ceil(log.total / log.pageSize)) : 1;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-6xl mx-auto fade-in">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center mb-4">
+            <HistoryIcon className="h-8 w-8 text-primary mr-3" />
+            <h1 className="text-3xl font-bold text-slate-800">Send History</h1>
+          </div>
+          <p className="text-slate-600">Every email sent from this app, newest first.</p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Send Log</CardTitle>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={() => { setFilters(emptyFilters); setPage(1); }}>
+                Clear Filters
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <Select value={filters.status} onValueChange={(value) => updateFilter('status', value)}>
+                <SelectTrigger className="h-9 text-sm" data-testid="select-history-status"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  <SelectItem value="Success">Success</SelectItem>
+                  <SelectItem value="Failed">Failed</SelectItem>
+                  <SelectItem value="Suppressed">Suppressed</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={filters.source} onValueChange={(value) => updateFilter('source', value)}>
+                <SelectTrigger className="h-9 text-sm" data-testid="select-history-source"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All sources</SelectItem>
+                  <SelectItem value="single">Single</SelectItem>
+                  <SelectItem value="bulk">Bulk</SelectItem>
+                  <SelectItem value="campaign">Campaign</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={filters.accountKey} onValueChange={(value) => updateFilter('accountKey', value)}>
+                <SelectTrigger className="h-9 text-sm" data-testid="select-history-account"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All accounts</SelectItem>
+                  {accounts?.map(account => (
+                    <SelectItem key={account.account_key} value={account.account_key}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input className="h-9 text-sm" placeholder="Sender address" value={filters.fromAddress} onChange={(e) => updateFilter('fromAddress', e.target.value)} data-testid="input-history-sender" />
+              <Input className="h-9 text-sm" placeholder="Recipient contains..." value={filters.recipient} onChange={(e) => updateFilter('recipient', e.target.value)} data-testid="input-history-recipient" />
+              <Input className="h-9 text-sm" type="date" value={filters.since} onChange={(e) => updateFilter('since', e.target.value)} data-testid="input-history-since" />
+              <Input className="h-9 text-sm" type="date" value={filters.until} onChange={(e) => updateFilter('until', e.target.value)} data-testid="input-history-until" />
+            </div>
+
+            {isLoading && (
+              <div className="flex items-center justify-center p-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            )}
+            {isError && (
+              <div className="text-red-500 p-8 text-center">
+                <p>Error: Could not load the send log.</p>
+              </div>
+            )}
+            {log && (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sent</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Account / Sender</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Response</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {log.entries.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-slate-400 py-8">
+                          No sends match these filters.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      log.entries.map(entry => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="whitespace-nowrap text-sm">{new Date(entry.sentAt).toLocaleString()}</TableCell>
+                          <TableCell className="font-medium">
+                            {entry.recipient}
+                            {entry.suppressedRecipients && entry.suppressedRecipients.length > 0 && (
+                              <div className="text-xs font-normal text-amber-600" title={entry.suppressedRecipients.map(skipped => `${skipped.field.toUpperCase()} ${skipped.email} (${skipped.reason.replace('_', ' ')})`).join('\n')}>
+                                {entry.suppressedRecipients.length} suppressed left out
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="max-w-xs truncate">{entry.subject}</TableCell>
+                          <TableCell>
+                            <div className="text-sm">{accountName(entry.accountKey)}</div>
+                            <div className="text-xs text-slate-500">{entry.fromAddress}</div>
+                          </TableCell>
+                          <TableCell className="capitalize text-sm">{entry.source}</TableCell>
+                          <TableCell>
+                            <Badge className={statusBadge[entry.status]}>{entry.status}</Badge>
+                            {entry.deliveryStatus && (
+                              <Badge variant="outline" className={`ml-1 capitalize ${deliveryBadge[entry.deliveryStatus]}`} title={entry.deliveryDetail}>
+                                {entry.deliveryStatus}
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell><ResponseCodePopup result={entry} /></TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+                <div className="flex items-center justify-between text-sm text-slate-600">
+                  <span>{log.total} sends</span>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span>Page {log.page} of {pageCount}</span>
+                    <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
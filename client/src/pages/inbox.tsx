@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle, ChevronLeft, ChevronRight, Download, Inbox as InboxIcon, Loader2, Mail, MailOpen, Paperclip, RefreshCw, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from '@/lib/queryClient';
+import EmailPreview from '@/components/EmailPreview';
+import { formatFileSize } from '@/components/AttachmentPicker';
+import { type InboxMessage, type InboxMessageDetail, type InboxPage, type PublicEmailAccount } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+const ALL = 'all';
+
+type Filters = { search: string; status: 'all' | 'unread'; accountKey: string; subAccountKey: string };
+
+const emptyFilters: Filters = { search: '', status: 'all', accountKey: ALL, subAccountKey: ALL };
+
+const toQueryString = (filters: Filters, page: number) => {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE), status: filters.status });
+  if (filters.search.trim()) params.set('search', filters.search.trim());
+  if (filters.accountKey !== ALL) params.set('accountKey', filters.accountKey);
+  if (filters.subAccountKey !== ALL) params.set('subAccountKey', filters.subAccountKey);
+  return params.toString();
+};
+
+const messagePath = (message: InboxMessage) =>
+  `/api/inbox/${message.accountKey}/${encodeURIComponent(message.subAccountKey)}/messages/${encodeURIComponent(message.messageId)}`;
+
+// One list of the mail received by every sub-account of every enabled primary account.
+export default function Inbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [searchInput, setSearchInput] = useState('');
+  const [page, setPage] = useState(1);
+  const [openMessage, setOpenMessage] = useState<InboxMessage | null>(null);
+
+  const { data: accounts } = useQuery<PublicEmailAccount[]>({
+    queryKey: ['/api/accounts'],
+  });
+
+  const { data: mailboxes } = useQuery({
+    queryKey: ['/api/zoho-accounts', filters.accountKey],
+    queryFn: async (): Promise<{ account_key: string; emailAddress: string }[]> => {
+      const res = await apiRequest('GET', `/api/zoho-accounts?accountKey=${filters.accountKey}`);
+      return (await res.json()).data;
+    },
+    enabled: filters.accountKey !== ALL,
+    staleTime: Infinity,
+  });
+
+  // Every page fans out to all mailboxes in Zoho, so the search runs on Enter rather than per keystroke.
+  const { data: inbox, isLoading, isFetching, isError, error, refetch } = useQuery<InboxPage>({
+    queryKey: ['/api/inbox', filters, page],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/inbox?${toQueryString(filters, page)}`);
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: detail, isLoading: detailLoading } = useQuery<InboxMessageDetail>({
+    queryKey: ['/api/inbox/message', openMessage?.accountKey, openMessage?.subAccountKey, openMessage?.messageId],
+    queryFn: async () => {
+      const res = await apiRequest('GET', messagePath(openMessage!));
+      return res.json();
+    },
+    enabled: !!openMessage,
+    staleTime: Infinity,
+  });
+
+  const markMutation = useMutation({
+    mutationFn: async ({ message, read }: { message: InboxMessage; read: boolean }) => {
+      const res = await apiRequest('POST', `${messagePath(message)}/read`, { read });
+      return res.json();
+    },
+    onSuccess: (_data, { message, read }) => {
+      if (openMessage?.messageId === message.messageId) setOpenMessage({ ...message, read });
+      queryClient.invalidateQueries({ queryKey: ['/api/inbox'], exact: false });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not update the message", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateFilters = (changes: Partial<Filters>) => {
+    setFilters(current => ({ ...current, ...changes }));
+    setPage(1);
+  };
+
+  const openInboxMessage = (message: InboxMessage) => {
+    setOpenMessage(message);
+    if (!message.read) markMutation.mutate({ message, read: true });
+  };
+
+  const accountName = (accountKey: string) => accounts?.find(account => account.account_key === accountKey)?.name || accountKey;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-6xl mx-auto fade-in">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center mb-4">
+            <InboxIcon className="h-8 w-8 text-primary mr-3" />
+            <h1 className="text-3xl font-bold text-slate-800">Inbox</h1>
+          </div>
+          <p className="text-slate-600">Replies, bounces and everything else received by your sub-accounts.</p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>All Mailboxes</CardTitle>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={() => { setFilters(emptyFilters); setSearchInput(''); setPage(1); }}>
+                Clear Filters
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <form
+                className="col-span-2 flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  updateFilters({ search: searchInput });
+                }}
+              >
+                <Input className="h-9 text-sm" placeholder="Search messages..." value={searchInput} onChange={(e) => setSearchInput(e.target.value)} data-testid="input-inbox-search" />
+                <Button type="submit" variant="outline" size="sm" className="h-9">
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+              <Select value={filters.status} onValueChange={(value) => updateFilters({ status: value as Filters['status'] })}>
+                <SelectTrigger className="h-9 text-sm" data-testid="select-inbox-status"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All messages</SelectItem>
+                  <SelectItem value="unread">Unread only</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={filters.accountKey} onValueChange={(value) => updateFilters({ accountKey: value, subAccountKey: ALL })}>
+                <SelectTrigger className="h-9 text-sm" data-testid="select-inbox-account"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All accounts</SelectItem>
+                  {accounts?.filter(account => account.enabled).map(account => (
+                    <SelectItem key={account.account_key} value={account.account_key}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {filters.accountKey !== ALL && (
+                <Select value={filters.subAccountKey} onValueChange={(value) => updateFilters({ subAccountKey: value })}>
+                  <SelectTrigger className="h-9 text-sm" data-testid="select-inbox-mailbox"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All mailboxes</SelectItem>
+                    {mailboxes?.map(mailbox => (
+                      <SelectItem key={mailbox.account_key} value={mailbox.account_key}>{mailbox.emailAddress}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {inbox && inbox.errors.length > 0 && (
+              <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+                {inbox.errors.map(({ mailbox, message }) => (
+                  <p key={mailbox}><AlertTriangle className="h-3 w-3 inline mr-1" />{mailbox} could not be read: {message}</p>
+                ))}
+              </div>
+            )}
+            {isLoading && (
+              <div className="flex items-center justify-center p-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            )}
+            {isError && (
+              <div className="text-red-500 p-8 text-center">
+                <p>Error: {(error as Error)?.message || 'Could not load the inbox.'}</p>
+              </div>
+            )}
+            {inbox && (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-6" />
+                      <TableHead>Received</TableHead>
+                      <TableHead>From</TableHead>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Mailbox</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {inbox.messages.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-slate-400 py-8">
+                          No messages match these filters.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      inbox.messages.map(message => (
+                        <TableRow
+                          key={`${message.accountKey}:${message.subAccountKey}:${message.messageId}`}
+                          className={`cursor-pointer ${message.read ? '' : 'font-semibold bg-blue-50/40'}`}
+                          onClick={() => openInboxMessage(message)}
+                          data-testid={`row-inbox-${message.messageId}`}
+                        >
+                          <TableCell>{message.read ? <MailOpen className="h-4 w-4 text-slate-400" /> : <Mail className="h-4 w-4 text-primary" />}</TableCell>
+                          <TableCell className="whitespace-nowrap text-sm">{new Date(message.receivedAt).toLocaleString()}</TableCell>
+                          <TableCell className="max-w-[12rem] truncate">{message.sender || message.fromAddress}</TableCell>
+                          <TableCell className="max-w-md">
+                            <div className="truncate">
+                              {message.hasAttachment && <Paperclip className="h-3 w-3 inline mr-1 text-slate-500" />}
+                              {message.subject || '(no subject)'}
+                            </div>
+                            <div className="text-xs text-slate-500 font-normal truncate">{message.summary}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="text-sm">{message.mailbox}</div>
+                            <div className="text-xs text-slate-500 font-normal">{accountName(message.accountKey)}</div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+                <div className="flex items-center justify-end gap-2 text-sm text-slate-600">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <span>Page {inbox.page}</span>
+                  <Button variant="outline" size="sm" disabled={!inbox.hasMore} onClick={() => setPage(page + 1)}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!openMessage} onOpenChange={(open) => !open && setOpenMessage(null)}>
+        <DialogContent className="max-w-4xl max-h-[85vh] overflow-auto">
+          <DialogHeader>
+            <DialogTitle>{openMessage?.subject || '(no subject)'}</DialogTitle>
+          </DialogHeader>
+          {openMessage && (
+            <div className="space-y-4">
+              <div className="flex items-start justify-between text-sm">
+                <div className="space-y-1">
+                  <p><span className="text-slate-500 mr-2">From:</span>{openMessage.sender} &lt;{openMessage.fromAddress}&gt;</p>
+                  <p><span className="text-slate-500 mr-2">To:</span>{openMessage.toAddress}</p>
+                  <p><span className="text-slate-500 mr-2">Received:</span>{new Date(openMessage.receivedAt).toLocaleString()} in {openMessage.mailbox}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={markMutation.isPending}
+                  onClick={() => markMutation.mutate({ message: openMessage, read: !openMessage.read })}
+                  data-testid="button-toggle-read"
+                >
+                  {openMessage.read ? <Mail className="h-4 w-4 mr-2" /> : <MailOpen className="h-4 w-4 mr-2" />}
+                  Mark as {openMessage.read ? 'unread' : 'read'}
+                </Button>
+              </div>
+              {detailLoading && (
+                <div className="flex items-center justify-center p-8">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              )}
+              {detail && (
+                <>
+                  {detail.attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {detail.attachments.map(attachment => (
+                        <a
+                          key={attachment.attachmentId}
+                          href={`${messagePath(openMessage)}/attachments/${encodeURIComponent(attachment.attachmentId)}?fileName=${encodeURIComponent(attachment.fileName)}`}
+                          className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-3 py-1 text-xs text-slate-700 hover:bg-slate-200"
+                        >
+                          <Download className="h-3 w-3" />
+                          {attachment.fileName}
+                          <span className="text-slate-400">({formatFileSize(attachment.size)})</span>
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  <EmailPreview subject={openMessage.subject} content={detail.content} />
+                  <details className="text-xs">
+                    <summary className="cursor-pointer text-slate-600">Message headers</summary>
+                    <pre className="mt-2 bg-slate-900 text-green-400 p-3 rounded-lg overflow-auto max-h-64 whitespace-pre-wrap">{detail.headers}</pre>
+                  </details>
+                </>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
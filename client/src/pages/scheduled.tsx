@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { CalendarClock, Loader2, RefreshCw, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from '@/lib/queryClient';
+import { ScheduleInputs, type ScheduleValue } from "@/components/ScheduleFields";
+import { formatInTimeZone } from "@shared/schedule";
+import { type ScheduledJob, type SingleEmail, type BulkEmail } from "@shared/schema";
+
+const statusStyles: Record<ScheduledJob['status'], string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  dispatching: 'bg-amber-100 text-amber-800',
+  dispatched: 'bg-green-100 text-green-800',
+  cancelled: 'bg-slate-100 text-slate-700',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const describeRecipients = (job: ScheduledJob) => {
+  if (job.type === 'single') return (job.payload as SingleEmail).toAddress;
+  const count = (job.payload as BulkEmail).recipients.split('\n').filter(line => line.trim()).length;
+  return `${count} recipients`;
+};
+
+export default function Scheduled() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showFinished, setShowFinished] = useState(false);
+  const [rescheduling, setRescheduling] = useState<ScheduledJob | null>(null);
+  const [newSchedule, setNewSchedule] = useState<ScheduleValue>({ enabled: true, scheduledAt: '', timeZone: '' });
+
+  const { data: jobs, isLoading, refetch } = useQuery<ScheduledJob[]>({
+    queryKey: ['/api/schedules', showFinished],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/schedules${showFinished ? '?all=true' : ''}`);
+      return res.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Could not update the scheduled send", description: error.message, variant: "destructive" });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('POST', `/api/schedules/${id}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+    },
+    onError,
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/schedules/${rescheduling?.id}/reschedule`, {
+        scheduledAt: newSchedule.scheduledAt,
+        timeZone: newSchedule.timeZone,
+      });
+      return res.json() as Promise<ScheduledJob>;
+    },
+    onSuccess: (job) => {
+      toast({ title: "Rescheduled", description: `Now due ${formatInTimeZone(job.runAt, job.timeZone)}.` });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+      setRescheduling(null);
+    },
+    onError,
+  });
+
+  const openReschedule = (job: ScheduledJob) => {
+    setNewSchedule({ enabled: true, scheduledAt: job.scheduledAt, timeZone: job.timeZone });
+    setRescheduling(job);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-6xl mx-auto fade-in">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center mb-4">
+            <CalendarClock className="h-8 w-8 text-primary mr-3" />
+            <h1 className="text-3xl font-bold text-slate-800">Scheduled Sends</h1>
+          </div>
+          <p className="text-slate-600">Emails and campaigns waiting for their send time.</p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Upcoming</CardTitle>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <Switch checked={showFinished} onCheckedChange={setShowFinished} />
+                Show sent and cancelled
+              </label>
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center p-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Send Time</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Recipients</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!jobs || jobs.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-slate-400 py-8">
+                        Nothing is scheduled.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    jobs.map((job) => (
+                      <TableRow key={job.id}>
+                        <TableCell>
+                          <div className="font-medium">{formatInTimeZone(job.runAt, job.timeZone)}</div>
+                          <div className="text-xs text-slate-500">{job.timeZone}</div>
+                        </TableCell>
+                        <TableCell className="capitalize">{job.type}</TableCell>
+                        <TableCell>{describeRecipients(job)}</TableCell>
+                        <TableCell className="max-w-xs truncate">{job.payload.subject}</TableCell>
+                        <TableCell>
+                          <Badge className={statusStyles[job.status]}>{job.status}</Badge>
+                          {job.error && <div className="text-xs text-red-600 mt-1">{job.error}</div>}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          {job.status === 'scheduled' && (
+                            <>
+                              <Button variant="outline" size="sm" onClick={() => openReschedule(job)}>
+                                Reschedule
+                              </Button>
+                              <Button variant="ghost" size="sm" className="text-red-600 hover:bg-red-50" onClick={() => cancelMutation.mutate(job.id)}>
+                                <XCircle className="h-4 w-4 mr-1" /> Cancel
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!rescheduling} onOpenChange={(open) => !open && setRescheduling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reschedule</DialogTitle>
+            <DialogDescription>Pick a new send time and time zone.</DialogDescription>
+          </DialogHeader>
+          <ScheduleInputs value={newSchedule} onChange={setNewSchedule} />
+          <div className="flex justify-end">
+            <Button onClick={() => rescheduleMutation.mutate()} disabled={!newSchedule.scheduledAt || rescheduleMutation.isPending}>
+              {rescheduleMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -6,13 +6,22 @@ import { z } from "zod";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Send, User, AtSign, Type, Edit3, CheckCircle } from "lucide-react";
-import { singleEmailSchema, type SingleEmail, type EmailAccount } from "@shared/schema";
+import { Loader2, Send, User, AtSign, Type, Edit3, CheckCircle, Eye } from "lucide-react";
+import { singleEmailSchema, type Attachment, type SingleEmail, type PublicEmailAccount } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import SendQuota from "@/components/SendQuota";
+import TemplatePicker from "@/components/TemplatePicker";
+import BodyFormatFields from "@/components/BodyFormatFields";
+import EmailEditor from "@/components/EmailEditor";
+import EmailPreview from "@/components/EmailPreview";
+import MessageOptionsFields, { emptyMessageOptions } from "@/components/MessageOptionsFields";
+import AttachmentPicker, { attachmentRequestFields } from "@/components/AttachmentPicker";
+import ScheduleFields, { emptySchedule, scheduleRequestFields, type ScheduleValue } from "@/components/ScheduleFields";
+import { formatInTimeZone } from "@shared/schedule";
+import { textPart } from "@shared/html-to-text";
 
 const zohoSubAccountSchema = z.object({
   account_key: z.string(),
@@ -31,8 +40,11 @@ export default function SingleSend() {
   const { toast } = useToast();
   const [showSuccess, setShowSuccess] = useState(false);
   const [selectedPrimaryAccountKey, setSelectedPrimaryAccountKey] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<ScheduleValue>(emptySchedule);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [showPreview, setShowPreview] = useState(false);
 
-  const { data: primaryAccounts, isLoading: primaryAccountsLoading } = useQuery<EmailAccount[]>({
+  const { data: primaryAccounts, isLoading: primaryAccountsLoading } = useQuery<PublicEmailAccount[]>({
     queryKey: ['/api/accounts']
   });
 
@@ -60,12 +72,15 @@ export default function SingleSend() {
       toAddress: "",
       subject: "",
       content: "",
+      mailFormat: "html",
+      ...emptyMessageOptions(),
     },
   });
 
   useEffect(() => {
-    if (primaryAccounts && primaryAccounts.length > 0 && !selectedPrimaryAccountKey) {
-      setSelectedPrimaryAccountKey(primaryAccounts[0].account_key);
+    const firstEnabled = primaryAccounts?.find(account => account.enabled);
+    if (firstEnabled && !selectedPrimaryAccountKey) {
+      setSelectedPrimaryAccountKey(firstEnabled.account_key);
     }
   }, [primaryAccounts, selectedPrimaryAccountKey]);
 
@@ -78,17 +93,31 @@ export default function SingleSend() {
 
   const sendEmailMutation = useMutation({
     mutationFn: async (data: SingleEmail) => {
-      const payload = { ...data, primaryAccountKey: selectedPrimaryAccountKey };
+      const payload = { ...data, primaryAccountKey: selectedPrimaryAccountKey, ...attachmentRequestFields(attachments), ...scheduleRequestFields(schedule) };
       const res = await apiRequest('POST', '/api/send-single-email', payload);
       return res.json();
     },
     onSuccess: (data) => {
+      if (data.scheduled) {
+        toast({
+          title: "Email scheduled",
+          description: `It will be sent ${formatInTimeZone(data.job.runAt, data.job.timeZone)}.`,
+        });
+        form.reset();
+        setSchedule(emptySchedule());
+        setAttachments([]);
+        return;
+      }
+      const skipped: string[] = (data.suppressedRecipients ?? []).map((entry: { email: string }) => entry.email);
       toast({
         title: "Email sent successfully!",
-        description: `Message ID: ${data.messageId}`,
+        description: skipped.length > 0
+          ? `Message ID: ${data.messageId}. Suppressed and left out: ${skipped.join(', ')}`
+          : `Message ID: ${data.messageId}`,
       });
       setShowSuccess(true);
       form.reset();
+      setAttachments([]);
       setTimeout(() => setShowSuccess(false), 5000);
     },
     onError: (error: any) => {
@@ -100,6 +129,11 @@ export default function SingleSend() {
     },
   });
 
+  const subject = form.watch("subject");
+  const content = form.watch("content");
+  const mailFormat = form.watch("mailFormat");
+  const textContent = form.watch("textContent");
+
   const onSubmit = (data: SingleEmail) => {
     setShowSuccess(false);
     sendEmailMutation.mutate(data);
@@ -150,8 +184,8 @@ export default function SingleSend() {
                     </FormControl>
                     <SelectContent>
                       {primaryAccounts?.map((account) => (
-                        <SelectItem key={account.account_key} value={account.account_key}>
-                          {account.name}
+                        <SelectItem key={account.account_key} value={account.account_key} disabled={!account.enabled}>
+                          {account.name}{account.enabled ? '' : ' (disabled)'}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -187,6 +221,7 @@ export default function SingleSend() {
                           )}
                         </SelectContent>
                       </Select>
+                      <SendQuota accountKey={selectedPrimaryAccountKey} fromAddress={field.value} />
                       <FormMessage />
                     </FormItem>
                   )}
@@ -203,8 +238,7 @@ export default function SingleSend() {
                       </FormLabel>
                       <FormControl>
                         <Input
-                          type="email"
-                          placeholder="recipient@example.com"
+                          placeholder="recipient@example.com, another@example.com"
                           className="form-input w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-300"
                           data-testid="input-to-address"
                           {...field}
@@ -215,6 +249,17 @@ export default function SingleSend() {
                   )}
                 />
 
+                <MessageOptionsFields />
+
+                <TemplatePicker
+                  subject={subject || ''}
+                  content={content || ''}
+                  onApply={(newSubject, newContent) => {
+                    form.setValue('subject', newSubject, { shouldValidate: true });
+                    form.setValue('content', newContent, { shouldValidate: true });
+                  }}
+                />
+
                 <FormField
                   control={form.control}
                   name="subject"
@@ -247,17 +292,14 @@ export default function SingleSend() {
                         Message Content
                       </FormLabel>
                       <FormControl>
-                        <div className="relative">
-                          <Textarea
+                        <div>
+                          <EmailEditor
+                            value={field.value}
+                            onChange={field.onChange}
+                            subject={subject || ''}
                             placeholder="Compose your email message here..."
-                            rows={10}
-                            className="form-input w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-primary transition-all duration-300 resize-y"
-                            data-testid="textarea-content"
-                            {...field}
+                            testId="editor-content"
                           />
-                          <div className="absolute bottom-4 right-4 text-xs text-slate-400">
-                            {field.value?.length || 0} characters
-                          </div>
                         </div>
                       </FormControl>
                       <FormMessage />
@@ -265,7 +307,27 @@ export default function SingleSend() {
                   )}
                 />
 
-                <div className="flex justify-end">
+                <AttachmentPicker value={attachments} onChange={setAttachments} />
+
+                <BodyFormatFields />
+
+                {showPreview && (
+                  <EmailPreview subject={subject || ''} content={content || ''} mailFormat={mailFormat} textContent={textPart({ content: content || '', textContent })} />
+                )}
+
+                <ScheduleFields value={schedule} onChange={setSchedule} />
+
+                <div className="flex justify-between">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setShowPreview(!showPreview)}
+                    className="px-3 py-2 text-sm"
+                    data-testid="button-preview-single"
+                  >
+                    <Eye className="h-4 w-4 mr-2" />
+                    {showPreview ? 'Hide Preview' : 'Preview Email'}
+                  </Button>
                   <Button
                     type="submit"
                     disabled={sendEmailMutation.isPending}
@@ -280,7 +342,7 @@ export default function SingleSend() {
                     ) : (
                       <>
                         <Send className="h-5 w-5 mr-2" />
-                        Send Email
+                        {schedule.enabled ? 'Schedule Email' : 'Send Email'}
                       </>
                     )}
                   </Button>
@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { dataDir } from "./storage";
+import {
+  BLOCKED_ATTACHMENT_EXTENSIONS, MAX_ATTACHMENT_BYTES,
+  type Attachment, type AttachmentInfo, type EmailAccount,
+} from "@shared/schema";
+
+// Staged uploads are kept on disk next to the JSON data files, whichever storage backend
+// is in use: attachments/<id> holds the bytes and attachments/<id>.json the metadata.
+const attachmentsDir = path.join(dataDir, 'attachments');
+
+// Staged files older than this are removed on the next upload.
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export class AttachmentStore {
+  async stage(fileName: string, contentType: string, data: Buffer): Promise<Attachment> {
+    const cleanName = path.basename(fileName).replace(/[\u0000-\u001f"\\]/g, '').trim();
+    if (!cleanName) throw new Error("A file name is required.");
+    const extension = cleanName.includes('.') ? cleanName.split('.').pop()!.toLowerCase() : '';
+    if (BLOCKED_ATTACHMENT_EXTENSIONS.includes(extension)) throw new Error(`.${extension} files cannot be attached.`);
+    if (data.length === 0) throw new Error("The file is empty.");
+    if (data.length > MAX_ATTACHMENT_BYTES) throw new Error(`Attachments are limited to ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`);
+
+    this.prune();
+    fs.mkdirSync(attachmentsDir, { recursive: true });
+    const attachment: Attachment = {
+      id: randomUUID(),
+      fileName: cleanName,
+      contentType: contentType || 'application/octet-stream',
+      size: data.length,
+      createdAt: new Date().toISOString(),
+    };
+    fs.writeFileSync(path.join(attachmentsDir, attachment.id), data);
+    fs.writeFileSync(path.join(attachmentsDir, `${attachment.id}.json`), JSON.stringify(attachment, null, 2));
+    return attachment;
+  }
+
+  async get(id: string): Promise<Attachment | undefined> {
+    if (!ID_PATTERN.test(id)) return undefined;
+    try {
+      return JSON.parse(fs.readFileSync(path.join(attachmentsDir, `${id}.json`), 'utf8'));
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  // Looks up every id, failing on the first one that is not staged (any more).
+  async resolve(ids: string[]): Promise<Attachment[]> {
+    const attachments: Attachment[] = [];
+    for (const id of ids) {
+      const attachment = await this.get(id);
+      if (!attachment) throw new Error(`Attachment ${id} was not found. Please upload it again.`);
+      attachments.push(attachment);
+    }
+    return attachments;
+  }
+
+  async read(id: string): Promise<Buffer> {
+    if (!ID_PATTERN.test(id)) throw new Error("Attachment not found.");
+    return fs.readFileSync(path.join(attachmentsDir, id));
+  }
+
+  private prune() {
+    if (!fs.existsSync(attachmentsDir)) return;
+    const cutoff = Date.now() - RETENTION_MS;
+    for (const file of fs.readdirSync(attachmentsDir)) {
+      const filePath = path.join(attachmentsDir, file);
+      if (fs.statSync(filePath).mtimeMs < cutoff) fs.unlinkSync(filePath);
+    }
+  }
+}
+
+export const attachmentStore = new AttachmentStore();
+
+// Result details show the attached files, or nothing when there were none.
+export function toAttachmentInfo(attachments: Attachment[]): AttachmentInfo[] | undefined {
+  if (attachments.length === 0) return undefined;
+  return attachments.map(({ id, fileName, size }) => ({ id, fileName, size }));
+}
+
+// How Zoho refers to an uploaded attachment in a message payload.
+export type ZohoAttachmentRef = { storeName: string; attachmentPath: string; attachmentName: string };
+
+export type UploadAttachmentFn = (account: EmailAccount, subAccountKey: string, attachment: Attachment) => Promise<ZohoAttachmentRef>;
+
+// Uploads to Zoho are per sub-account. Each staged file is uploaded once per sub-account
+// and the reference reused, so a campaign of any size uploads every file once per sender.
+export class ZohoAttachmentUploads {
+  private refs: Map<string, Promise<ZohoAttachmentRef>>;
+
+  constructor(private upload: UploadAttachmentFn) {
+    this.refs = new Map();
+  }
+
+  async refsFor(account: EmailAccount, subAccountKey: string, attachmentIds: string[]): Promise<ZohoAttachmentRef[]> {
+    const attachments = await attachmentStore.resolve(attachmentIds);
+    return Promise.all(attachments.map(attachment => {
+      const key = `${account.account_key}:${subAccountKey}:${attachment.id}`;
+      let ref = this.refs.get(key);
+      if (!ref) {
+        // A failed upload is forgotten so the next send tries again.
+        ref = this.upload(account, subAccountKey, attachment).catch(error => {
+          this.refs.delete(key);
+          throw error;
+        });
+        this.refs.set(key, ref);
+      }
+      return ref;
+    }));
+  }
+}
@@ -0,0 +1,110 @@
+import { storage, type BounceRecord } from "./storage";
+import { looksLikeDsn, parseDsn } from "./dsn";
+import { type ListMailboxesFn, type ListMessagesFn, type Mailbox } from "./inbox";
+
+export type FetchRawMessageFn = (mailbox: Mailbox, messageId: string) => Promise<string>;
+
+export type BouncePollResult = {
+  mailboxes: number;
+  scanned: number;
+  bounces: BounceRecord[];
+  errors: { mailbox: string; message: string }[];
+};
+
+// How often the sender mailboxes are scanned. BOUNCE_POLL_INTERVAL_SECONDS overrides the
+// default of 5 minutes; 0 turns the poller off (POST /api/bounces/poll still works).
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+// Only the newest messages of each mailbox are looked at. DSNs arrive within minutes of a
+// send, so anything older was seen by an earlier poll.
+const SCAN_DEPTH = 50;
+
+const intervalMs = () => {
+  const value = process.env.BOUNCE_POLL_INTERVAL_SECONDS;
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : DEFAULT_INTERVAL_MS;
+};
+
+// Finds mailer-daemon reports in the inboxes of the sending sub-accounts and records the
+// recipients they name as bounces. A Zoho message is only processed once: the ids of
+// messages already turned into bounces are loaded from storage, and messages that turned
+// out not to be DSNs are remembered until the server restarts.
+export class BouncePoller {
+  private processed: Set<string> | null;
+  private polling: Promise<BouncePollResult> | null;
+  private timer: NodeJS.Timeout | null;
+
+  constructor(private listMailboxes: ListMailboxesFn, private listMessages: ListMessagesFn, private fetchRawMessage: FetchRawMessageFn) {
+    this.processed = null;
+    this.polling = null;
+    this.timer = null;
+  }
+
+  start() {
+    const interval = intervalMs();
+    if (interval === 0 || this.timer) return;
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error("Bounce poll failed:", error));
+    }, interval);
+  }
+
+  // Concurrent calls (the timer and a manual poll) share one scan.
+  poll(): Promise<BouncePollResult> {
+    if (!this.polling) {
+      this.polling = this.scan().finally(() => { this.polling = null; });
+    }
+    return this.polling;
+  }
+
+  private async scan(): Promise<BouncePollResult> {
+    if (!this.processed) {
+      const bounces = await storage.getBounces();
+      this.processed = new Set(bounces.flatMap(bounce => bounce.messageId ? [bounce.messageId] : []));
+    }
+    const processed = this.processed;
+    const result: BouncePollResult = { mailboxes: 0, scanned: 0, bounces: [], errors: [] };
+
+    const accounts = (await storage.getEmailAccounts()).filter(account => account.enabled);
+    for (const account of accounts) {
+      let mailboxes: Mailbox[];
+      try {
+        mailboxes = await this.listMailboxes(account);
+      } catch (error: any) {
+        result.errors.push({ mailbox: account.name, message: error.message });
+        continue;
+      }
+
+      for (const mailbox of mailboxes) {
+        result.mailboxes++;
+        try {
+          const summaries = await this.listMessages(mailbox, { start: 1, limit: SCAN_DEPTH, unreadOnly: false });
+          for (const summary of summaries) {
+            const messageId = String(summary.messageId);
+            if (processed.has(messageId) || !looksLikeDsn(summary.fromAddress ?? '', summary.subject ?? '')) continue;
+            result.scanned++;
+            const recipients = parseDsn(await this.fetchRawMessage(mailbox, messageId));
+            // One write for every recipient of the report: a failure part way would leave the
+            // message unprocessed with some of its bounces stored, and the next poll would
+            // store those again.
+            const stored = await storage.storeBounces(recipients.map(dsn => ({
+              recipient: dsn.recipient,
+              bounceType: dsn.bounceType,
+              accountKey: account.account_key,
+              mailbox: mailbox.emailAddress,
+              messageId,
+              statusCode: dsn.status ?? undefined,
+              diagnostic: dsn.diagnostic ?? undefined,
+            })));
+            result.bounces.push(...stored);
+            processed.add(messageId);
+          }
+        } catch (error: any) {
+          result.errors.push({ mailbox: mailbox.emailAddress, message: error.message });
+        }
+      }
+    }
+
+    if (result.bounces.length > 0) console.log(`Bounce poll recorded ${result.bounces.length} bounce(s) from ${result.scanned} DSN message(s)`);
+    return result;
+  }
+}
@@ -0,0 +1,214 @@
+import { storage } from "./storage";
+import { messageBody, messageOptions, toEmailResult, type SendEmailFn } from "./delivery";
+import { SuppressionLookup, messageAddresses, screenAddresses, screenedOptions, toSuppressedResult } from "./suppression";
+import { recordSend } from "./send-log";
+import { SenderRotation, sendersFor, type SenderChecks } from "./sender-rotation";
+import { attachmentStore, toAttachmentInfo } from "./attachments";
+import { trackingTokenFor } from "./open-tracking";
+import { type BulkEmail, type Campaign, type EmailResult } from "@shared/schema";
+import { fieldsForRecipient, mergeRenderer, renderMergeTags } from "@shared/merge";
+import { randomUUID } from "crypto";
+
+function interruptedResult(recipient: string): EmailResult {
+  const error = "The server stopped while this message was being sent. It may or may not have been delivered, so it was not sent again.";
+  return { recipient, status: "Failed", messageId: null, responseCode: null, error, fullResponse: null, failureType: null, attempts: [] };
+}
+
+// Runs bulk campaigns on the server. Every recipient's state is written to storage
+// after each send, so a campaign survives a closed tab or a server restart.
+export class CampaignRunner {
+  // Loaded campaigns are kept here so the send loop and the pause/cancel
+  // endpoints always work on the same object.
+  private campaigns: Map<string, Campaign>;
+  private running: Set<string>;
+
+  constructor(private sendEmail: SendEmailFn, private senderChecks: SenderChecks) {
+    this.campaigns = new Map();
+    this.running = new Set();
+  }
+
+  async list(): Promise<Campaign[]> {
+    const stored = await storage.getCampaigns();
+    return stored.map(campaign => this.campaigns.get(campaign.id) || campaign);
+  }
+
+  async get(id: string): Promise<Campaign | undefined> {
+    const cached = this.campaigns.get(id);
+    if (cached) return cached;
+    const campaign = await storage.getCampaign(id);
+    if (campaign) this.campaigns.set(id, campaign);
+    return campaign;
+  }
+
+  async create(data: BulkEmail): Promise<Campaign> {
+    const recipientList = data.recipients.split('\n').map(email => email.trim()).filter(email => email);
+    const now = new Date().toISOString();
+    const campaign: Campaign = {
+      id: randomUUID(),
+      primaryAccountKey: data.primaryAccountKey,
+      accountSelect: data.accountSelect,
+      senders: data.senders,
+      rotation: data.rotation,
+      subject: data.subject,
+      content: data.content,
+      mailFormat: data.mailFormat,
+      textContent: data.textContent,
+      attachmentIds: data.attachmentIds,
+      ccAddress: data.ccAddress,
+      bccAddress: data.bccAddress,
+      replyTo: data.replyTo,
+      headers: data.headers,
+      trackOpens: data.trackOpens,
+      status: "running",
+      recipients: recipientList.map(recipient => ({ recipient, status: "pending", fields: fieldsForRecipient(recipient, data.mergeData), result: null })),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.campaigns.set(campaign.id, campaign);
+    await this.save(campaign);
+    this.start(campaign.id);
+    return campaign;
+  }
+
+  async pause(id: string): Promise<Campaign> {
+    const campaign = await this.require(id);
+    if (campaign.status !== "running") throw new Error(`Campaign is ${campaign.status} and cannot be paused.`);
+    campaign.status = "paused";
+    await this.save(campaign);
+    return campaign;
+  }
+
+  async resume(id: string): Promise<Campaign> {
+    const campaign = await this.require(id);
+    if (campaign.status !== "paused") throw new Error(`Campaign is ${campaign.status} and cannot be resumed.`);
+    campaign.status = "running";
+    await this.save(campaign);
+    this.start(id);
+    return campaign;
+  }
+
+  async cancel(id: string): Promise<Campaign> {
+    const campaign = await this.require(id);
+    if (campaign.status === "completed" || campaign.status === "cancelled") {
+      throw new Error(`Campaign is already ${campaign.status}.`);
+    }
+    campaign.status = "cancelled";
+    await this.save(campaign);
+    return campaign;
+  }
+
+  // Called once at startup: restarts every campaign that was running when the server stopped.
+  // A recipient still marked "sending" was mid-send at the time. Zoho may or may not have
+  // accepted that message, so it is marked failed for the user to check instead of being
+  // sent a second time.
+  async recover(): Promise<void> {
+    const stored = await storage.getCampaigns();
+    for (const campaign of stored) {
+      const interrupted = campaign.recipients.filter(entry => entry.status === "sending");
+      if (interrupted.length === 0) continue;
+      console.log(`Campaign ${campaign.id} had ${interrupted.length} send(s) interrupted by the restart, marking them failed`);
+      for (const entry of interrupted) {
+        entry.status = "failed";
+        entry.result = interruptedResult(entry.recipient);
+      }
+      await this.save(campaign);
+    }
+    for (const campaign of stored.filter(c => c.status === "running")) {
+      console.log(`Resuming campaign ${campaign.id} after restart`);
+      this.campaigns.set(campaign.id, campaign);
+      this.start(campaign.id);
+    }
+  }
+
+  private async require(id: string): Promise<Campaign> {
+    const campaign = await this.get(id);
+    if (!campaign) throw new Error("Campaign not found.");
+    return campaign;
+  }
+
+  private async save(campaign: Campaign) {
+    campaign.updatedAt = new Date().toISOString();
+    await storage.saveCampaign(campaign);
+  }
+
+  private start(id: string) {
+    if (this.running.has(id)) return;
+    this.running.add(id);
+    this.run(id).then(() => {
+      this.running.delete(id);
+      // A resume that came in while the loop was stopping found it still registered and
+      // did not start a new one, so the loop picks the campaign up again itself.
+      if (this.campaigns.get(id)?.status === "running") this.start(id);
+    }, error => {
+      this.running.delete(id);
+      console.error(`Campaign ${id} stopped with an error:`, error);
+    });
+  }
+
+  private async run(id: string) {
+    const campaign = await this.require(id);
+    const rotation = new SenderRotation(sendersFor(campaign), campaign.rotation ?? "round_robin", this.senderChecks);
+    const suppressions = new SuppressionLookup();
+    let attachments;
+    try {
+      attachments = toAttachmentInfo(await attachmentStore.resolve(campaign.attachmentIds ?? []));
+    } catch (error: any) {
+      // Sending without a file the user attached would be worse than not sending.
+      console.error(`Campaign ${id} cannot run: ${error.message}`);
+      campaign.status = "paused";
+      await this.save(campaign);
+      return;
+    }
+    for (const entry of campaign.recipients) {
+      if (campaign.status !== "running") return;
+      if (entry.status !== "pending") continue;
+
+      const fields = { ...entry.fields, email: entry.recipient };
+      const subject = renderMergeTags(campaign.subject, fields);
+      const trackingToken = await trackingTokenFor(campaign.trackOpens, campaign.id, entry.recipient);
+      const message = { toAddress: entry.recipient, subject, ...messageBody(campaign, mergeRenderer(fields)), attachmentIds: campaign.attachmentIds, trackingToken };
+
+      // Repeats with the next sender whenever the current one turns out to be unusable.
+      while (true) {
+        const sender = await rotation.next();
+        if (!sender) {
+          // The remaining recipients wait until a sender is fixed and the campaign resumed.
+          console.log(`Campaign ${id} has no usable sender left, pausing`);
+          entry.status = "pending";
+          campaign.status = "paused";
+          await this.save(campaign);
+          return;
+        }
+        const context = { source: "campaign" as const, batchId: campaign.id, accountKey: sender.accountKey, fromAddress: sender.fromAddress, subject };
+
+        // To, CC and BCC are checked right before each send. The lookup reloads every minute,
+        // so addresses suppressed mid-campaign are skipped too.
+        const { kept, suppressed, toMatch } = await screenAddresses(suppressions, sender.accountKey, messageAddresses(entry.recipient, campaign));
+        const suppressedRecipients = suppressed.length > 0 ? suppressed : undefined;
+        if (kept.to.length === 0) {
+          entry.status = "suppressed";
+          entry.result = { ...toSuppressedResult(entry.recipient, toMatch!), accountKey: sender.accountKey, fromAddress: sender.fromAddress, suppressedRecipients };
+          await this.save(campaign);
+          await recordSend(context, entry.result);
+          break;
+        }
+
+        entry.status = "sending";
+        await this.save(campaign);
+        const mailOptions = { ...message, ...messageOptions(screenedOptions(campaign, kept)) };
+        const result = await this.sendEmail(sender.accountKey, sender.fromAddress, mailOptions);
+        if (await rotation.shouldFailOver(sender, result)) continue;
+        entry.status = result.success ? "sent" : "failed";
+        entry.result = { ...toEmailResult(entry.recipient, result), accountKey: sender.accountKey, fromAddress: sender.fromAddress, attachments, trackingToken, suppressedRecipients };
+        await this.save(campaign);
+        await recordSend(context, entry.result);
+        break;
+      }
+    }
+
+    if (campaign.status !== "running") return;
+    campaign.status = "completed";
+    await this.save(campaign);
+    console.log(`Campaign ${id} completed`);
+  }
+}
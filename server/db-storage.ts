@@ -0,0 +1,399 @@
+import { and, asc, count, desc, eq, gte, ilike, inArray, isNotNull, lte, sql, type SQL } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import type { Database } from "./db";
+import type { BounceRecord, IStorage } from "./storage";
+import { decryptAccountSecrets, encryptAccountSecrets } from "./secrets";
+import {
+  users, bounces, emailAccounts, sendLog, campaigns, rateLimits, suppressions, emailTemplates, scheduledJobs, webhookEvents, openTracking,
+  type User, type InsertUser, type EmailAccount, type Campaign, type RateLimit, type Suppression, type InsertSuppression,
+  type EmailTemplate, type ScheduledJob, type WebhookEvent, type OpenTracking, type SendLogEntry, type InsertSendLogEntry, type SendLogQuery, type SendLogPage,
+} from "@shared/schema";
+
+// Row -> API shape. Timestamps come back as Dates and go out as ISO strings,
+// the same as the JSON-file storage.
+// Credentials are encrypted in the table and decrypted on the way out (see secrets.ts).
+const toEmailAccount = (row: typeof emailAccounts.$inferSelect): EmailAccount => decryptAccountSecrets({
+  name: row.name,
+  account_key: row.accountKey,
+  fromAddress: row.fromAddress,
+  client_id: row.clientId,
+  client_secret: row.clientSecret,
+  refresh_token: row.refreshToken,
+  enabled: row.enabled,
+  region: row.region,
+});
+
+const toEmailAccountRow = (account: EmailAccount) => {
+  const encrypted = encryptAccountSecrets(account);
+  return {
+    accountKey: encrypted.account_key,
+    name: encrypted.name,
+    fromAddress: encrypted.fromAddress,
+    clientId: encrypted.client_id,
+    clientSecret: encrypted.client_secret,
+    refreshToken: encrypted.refresh_token,
+    enabled: encrypted.enabled,
+    region: encrypted.region,
+  };
+};
+
+const toBounceRecord = (row: typeof bounces.$inferSelect): BounceRecord => ({
+  id: String(row.id),
+  recipient: row.recipient,
+  bounceType: row.bounceType,
+  accountKey: row.accountKey,
+  mailbox: row.mailbox ?? undefined,
+  messageId: row.messageId ?? undefined,
+  statusCode: row.statusCode ?? undefined,
+  diagnostic: row.diagnostic ?? undefined,
+  createdAt: row.createdAt.toISOString(),
+});
+
+const toSendLogEntry = (row: typeof sendLog.$inferSelect): SendLogEntry => ({
+  id: row.id,
+  sentAt: row.sentAt.toISOString(),
+  source: row.source as SendLogEntry['source'],
+  batchId: row.batchId,
+  accountKey: row.accountKey,
+  fromAddress: row.fromAddress,
+  recipient: row.recipient,
+  subject: row.subject,
+  status: row.status as SendLogEntry['status'],
+  messageId: row.messageId,
+  responseCode: row.responseCode,
+  failureType: row.failureType as SendLogEntry['failureType'],
+  error: row.error,
+  fullResponse: row.fullResponse,
+  attempts: row.attempts ?? undefined,
+  attachments: row.attachments ?? undefined,
+  deliveryStatus: (row.deliveryStatus ?? undefined) as SendLogEntry['deliveryStatus'],
+  deliveryUpdatedAt: row.deliveryUpdatedAt?.toISOString(),
+  deliveryDetail: row.deliveryDetail ?? undefined,
+  trackingToken: row.trackingToken ?? undefined,
+  suppressedRecipients: row.suppressedRecipients ?? undefined,
+});
+
+const toSendLogRow = (entry: SendLogEntry): typeof sendLog.$inferInsert => ({
+  ...entry,
+  sentAt: new Date(entry.sentAt),
+  failureType: entry.failureType ?? null,
+  attempts: entry.attempts ?? null,
+  attachments: entry.attachments ?? null,
+  deliveryStatus: entry.deliveryStatus ?? null,
+  deliveryUpdatedAt: entry.deliveryUpdatedAt ? new Date(entry.deliveryUpdatedAt) : null,
+  deliveryDetail: entry.deliveryDetail ?? null,
+  trackingToken: entry.trackingToken ?? null,
+  suppressedRecipients: entry.suppressedRecipients ?? null,
+});
+
+const toCampaign = (row: typeof campaigns.$inferSelect): Campaign => ({
+  ...row,
+  status: row.status as Campaign['status'],
+  senders: row.senders ?? undefined,
+  rotation: (row.rotation ?? undefined) as Campaign['rotation'],
+  mailFormat: (row.mailFormat ?? undefined) as Campaign['mailFormat'],
+  textContent: row.textContent ?? undefined,
+  attachmentIds: row.attachmentIds ?? undefined,
+  ccAddress: row.ccAddress ?? undefined,
+  bccAddress: row.bccAddress ?? undefined,
+  replyTo: row.replyTo ?? undefined,
+  headers: row.headers ?? undefined,
+  trackOpens: row.trackOpens ?? undefined,
+  createdAt: row.createdAt.toISOString(),
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+const toSuppression = (row: typeof suppressions.$inferSelect): Suppression => ({
+  ...row,
+  reason: row.reason as Suppression['reason'],
+  createdAt: row.createdAt.toISOString(),
+});
+
+const toEmailTemplate = (row: typeof emailTemplates.$inferSelect): EmailTemplate => ({
+  ...row,
+  createdAt: row.createdAt.toISOString(),
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+const toScheduledJob = (row: typeof scheduledJobs.$inferSelect): ScheduledJob => ({
+  ...row,
+  type: row.type as ScheduledJob['type'],
+  status: row.status as ScheduledJob['status'],
+  runAt: row.runAt.toISOString(),
+  createdAt: row.createdAt.toISOString(),
+  dispatchedAt: row.dispatchedAt ? row.dispatchedAt.toISOString() : null,
+});
+
+const toWebhookEvent = (row: typeof webhookEvents.$inferSelect): WebhookEvent => ({
+  ...row,
+  status: row.status as WebhookEvent['status'],
+  receivedAt: row.receivedAt.toISOString(),
+  processedAt: row.processedAt ? row.processedAt.toISOString() : null,
+});
+
+const toOpenTracking = (row: typeof openTracking.$inferSelect): OpenTracking => ({
+  ...row,
+  createdAt: row.createdAt.toISOString(),
+});
+
+// Postgres-backed storage, used when STORAGE_BACKEND=postgres. Create the tables with
+// `npm run db:push` and copy existing JSON data over with `npm run db:import`.
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getEmailAccounts(): Promise<EmailAccount[]> {
+    const rows = await this.db.select().from(emailAccounts).orderBy(asc(emailAccounts.createdAt));
+    return rows.map(toEmailAccount);
+  }
+
+  async addEmailAccount(account: EmailAccount): Promise<EmailAccount> {
+    await this.db.insert(emailAccounts).values(toEmailAccountRow(account));
+    return account;
+  }
+
+  async updateEmailAccount(account: EmailAccount): Promise<EmailAccount> {
+    const updated = await this.db.update(emailAccounts).set(toEmailAccountRow(account))
+      .where(eq(emailAccounts.accountKey, account.account_key))
+      .returning();
+    if (updated.length === 0) throw new Error("Account not found.");
+    return account;
+  }
+
+  async deleteEmailAccount(accountKey: string): Promise<boolean> {
+    const deleted = await this.db.delete(emailAccounts).where(eq(emailAccounts.accountKey, accountKey)).returning();
+    return deleted.length > 0;
+  }
+
+  async getBounces(): Promise<BounceRecord[]> {
+    const rows = await this.db.select().from(bounces).orderBy(asc(bounces.createdAt));
+    return rows.map(toBounceRecord);
+  }
+
+  async storeBounce(bounce: Omit<BounceRecord, 'id' | 'createdAt'>): Promise<BounceRecord> {
+    const [row] = await this.db.insert(bounces).values(bounce).returning();
+    return toBounceRecord(row);
+  }
+
+  async storeBounces(entries: Omit<BounceRecord, 'id' | 'createdAt'>[]): Promise<BounceRecord[]> {
+    if (entries.length === 0) return [];
+    const rows = await this.db.insert(bounces).values(entries).returning();
+    return rows.map(toBounceRecord);
+  }
+
+  async getCampaigns(): Promise<Campaign[]> {
+    const rows = await this.db.select().from(campaigns).orderBy(asc(campaigns.createdAt));
+    return rows.map(toCampaign);
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    const [row] = await this.db.select().from(campaigns).where(eq(campaigns.id, id));
+    return row ? toCampaign(row) : undefined;
+  }
+
+  async saveCampaign(campaign: Campaign): Promise<Campaign> {
+    const row = { ...campaign, createdAt: new Date(campaign.createdAt), updatedAt: new Date(campaign.updatedAt) };
+    await this.db.insert(campaigns).values(row).onConflictDoUpdate({ target: campaigns.id, set: row });
+    return campaign;
+  }
+
+  async getRateLimits(): Promise<RateLimit[]> {
+    const rows = await this.db.select().from(rateLimits);
+    return rows.map(row => ({ ...row, scope: row.scope as RateLimit['scope'] }));
+  }
+
+  async saveRateLimit(limit: RateLimit): Promise<RateLimit> {
+    await this.db.insert(rateLimits).values(limit).onConflictDoUpdate({ target: [rateLimits.scope, rateLimits.key], set: limit });
+    return limit;
+  }
+
+  async deleteRateLimit(scope: RateLimit['scope'], key: string): Promise<boolean> {
+    const deleted = await this.db.delete(rateLimits).where(and(eq(rateLimits.scope, scope), eq(rateLimits.key, key))).returning();
+    return deleted.length > 0;
+  }
+
+  async getSuppressions(): Promise<Suppression[]> {
+    const rows = await this.db.select().from(suppressions).orderBy(asc(suppressions.createdAt));
+    return rows.map(toSuppression);
+  }
+
+  // Same rules as MemStorage: one entry per scope and address, new entries returned.
+  async addSuppressions(entries: InsertSuppression[]): Promise<Suppression[]> {
+    const existing = new Set((await this.getSuppressions()).map(entry => `${entry.accountKey ?? '*'}:${entry.email}`));
+    const added: Suppression[] = [];
+    for (const entry of entries) {
+      const id = `${entry.accountKey ?? '*'}:${entry.email.toLowerCase()}`;
+      if (existing.has(id)) continue;
+      existing.add(id);
+      added.push({ ...entry, email: entry.email.toLowerCase(), id: randomUUID(), createdAt: new Date().toISOString() });
+    }
+    if (added.length > 0) {
+      await this.db.insert(suppressions).values(added.map(entry => ({ ...entry, createdAt: new Date(entry.createdAt) })));
+    }
+    return added;
+  }
+
+  async deleteSuppression(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(suppressions).where(eq(suppressions.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getTemplates(): Promise<EmailTemplate[]> {
+    const rows = await this.db.select().from(emailTemplates).orderBy(asc(emailTemplates.createdAt));
+    return rows.map(toEmailTemplate);
+  }
+
+  async getTemplate(id: string): Promise<EmailTemplate | undefined> {
+    const [row] = await this.db.select().from(emailTemplates).where(eq(emailTemplates.id, id));
+    return row ? toEmailTemplate(row) : undefined;
+  }
+
+  async saveTemplate(template: EmailTemplate): Promise<EmailTemplate> {
+    const row = { ...template, createdAt: new Date(template.createdAt), updatedAt: new Date(template.updatedAt) };
+    await this.db.insert(emailTemplates).values(row).onConflictDoUpdate({ target: emailTemplates.id, set: row });
+    return template;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(emailTemplates).where(eq(emailTemplates.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    const rows = await this.db.select().from(scheduledJobs).orderBy(asc(scheduledJobs.createdAt));
+    return rows.map(toScheduledJob);
+  }
+
+  async saveScheduledJob(job: ScheduledJob): Promise<ScheduledJob> {
+    const row = {
+      ...job,
+      runAt: new Date(job.runAt),
+      createdAt: new Date(job.createdAt),
+      dispatchedAt: job.dispatchedAt ? new Date(job.dispatchedAt) : null,
+    };
+    await this.db.insert(scheduledJobs).values(row).onConflictDoUpdate({ target: scheduledJobs.id, set: row });
+    return job;
+  }
+
+  async getWebhookEvents(): Promise<WebhookEvent[]> {
+    const rows = await this.db.select().from(webhookEvents).orderBy(asc(webhookEvents.receivedAt));
+    return rows.map(toWebhookEvent);
+  }
+
+  async saveWebhookEvent(event: WebhookEvent): Promise<WebhookEvent> {
+    const row = {
+      ...event,
+      payload: event.payload ?? null,
+      receivedAt: new Date(event.receivedAt),
+      processedAt: event.processedAt ? new Date(event.processedAt) : null,
+    };
+    await this.db.insert(webhookEvents).values(row).onConflictDoUpdate({ target: webhookEvents.id, set: row });
+    return event;
+  }
+
+  async getOpenTrackings(tokens: string[]): Promise<OpenTracking[]> {
+    if (tokens.length === 0) return [];
+    const rows = await this.db.select().from(openTracking).where(inArray(openTracking.token, tokens));
+    return rows.map(toOpenTracking);
+  }
+
+  async saveOpenTracking(record: OpenTracking): Promise<OpenTracking> {
+    const row = { ...record, createdAt: new Date(record.createdAt) };
+    await this.db.insert(openTracking).values(row).onConflictDoUpdate({ target: openTracking.token, set: row });
+    return record;
+  }
+
+  async appendSendLog(entries: InsertSendLogEntry[]): Promise<SendLogEntry[]> {
+    const sentAt = new Date().toISOString();
+    const added: SendLogEntry[] = entries.map(entry => ({ ...entry, id: randomUUID(), sentAt }));
+    if (added.length > 0) {
+      await this.db.insert(sendLog).values(added.map(toSendLogRow));
+    }
+    return added;
+  }
+
+  async querySendLog(query: SendLogQuery): Promise<SendLogPage> {
+    const conditions: SQL[] = [];
+    if (query.status) conditions.push(eq(sendLog.status, query.status));
+    if (query.source) conditions.push(eq(sendLog.source, query.source));
+    if (query.accountKey) conditions.push(eq(sendLog.accountKey, query.accountKey));
+    if (query.fromAddress) conditions.push(sql`lower(${sendLog.fromAddress}) = ${query.fromAddress.toLowerCase()}`);
+    if (query.batchId) conditions.push(eq(sendLog.batchId, query.batchId));
+    if (query.recipient?.trim()) conditions.push(ilike(sendLog.recipient, `%${query.recipient.trim()}%`));
+    if (query.since) conditions.push(gte(sendLog.sentAt, new Date(query.since)));
+    if (query.until) conditions.push(lte(sendLog.sentAt, new Date(query.until)));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await this.db.select({ total: count() }).from(sendLog).where(where);
+    const rows = await this.db.select().from(sendLog).where(where)
+      .orderBy(desc(sendLog.sentAt))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    return { entries: rows.map(toSendLogEntry), total, page: query.page, pageSize: query.pageSize };
+  }
+
+  async getSendLogEntry(id: string): Promise<SendLogEntry | undefined> {
+    const [row] = await this.db.select().from(sendLog).where(eq(sendLog.id, id));
+    return row ? toSendLogEntry(row) : undefined;
+  }
+
+  async findSendLogByMessageId(messageId: string): Promise<SendLogEntry | undefined> {
+    const [row] = await this.db.select().from(sendLog).where(eq(sendLog.messageId, messageId)).orderBy(desc(sendLog.sentAt)).limit(1);
+    return row ? toSendLogEntry(row) : undefined;
+  }
+
+  async updateSendLogEntry(entry: SendLogEntry): Promise<SendLogEntry> {
+    const updated = await this.db.update(sendLog).set(toSendLogRow(entry)).where(eq(sendLog.id, entry.id)).returning({ id: sendLog.id });
+    if (updated.length === 0) throw new Error("Send log entry not found.");
+    return entry;
+  }
+
+  async getLatestSendBatch(): Promise<SendLogEntry[]> {
+    const [latest] = await this.db.select({ batchId: sendLog.batchId }).from(sendLog)
+      .where(isNotNull(sendLog.batchId))
+      .orderBy(desc(sendLog.sentAt))
+      .limit(1);
+    if (!latest?.batchId) return [];
+    const rows = await this.db.select().from(sendLog).where(eq(sendLog.batchId, latest.batchId)).orderBy(asc(sendLog.sentAt));
+    return rows.map(toSendLogEntry);
+  }
+
+  // Used by the JSON import, which must keep the original timestamps. Bounces already
+  // in the table (same recipient, account and time) are skipped, so imports can be re-run.
+  async importBounces(records: BounceRecord[]): Promise<number> {
+    const existing = new Set((await this.getBounces()).map(b => `${b.recipient}|${b.accountKey}|${b.createdAt}`));
+    const fresh = records.filter(b => !existing.has(`${b.recipient}|${b.accountKey}|${new Date(b.createdAt).toISOString()}`));
+    if (fresh.length === 0) return 0;
+    await this.db.insert(bounces).values(fresh.map(b => ({
+      recipient: b.recipient,
+      bounceType: b.bounceType,
+      accountKey: b.accountKey,
+      mailbox: b.mailbox,
+      messageId: b.messageId,
+      statusCode: b.statusCode,
+      diagnostic: b.diagnostic,
+      createdAt: new Date(b.createdAt),
+    })));
+    return fresh.length;
+  }
+
+  async importSendLog(entries: SendLogEntry[]): Promise<number> {
+    if (entries.length === 0) return 0;
+    const inserted = await this.db.insert(sendLog).values(entries.map(toSendLogRow)).onConflictDoNothing().returning({ id: sendLog.id });
+    return inserted.length;
+  }
+}
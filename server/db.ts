@@ -0,0 +1,11 @@
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+
+export function createDb(url = process.env.DATABASE_URL) {
+  if (!url) {
+    throw new Error("DATABASE_URL must be set to use the postgres storage backend.");
+  }
+  return drizzle(postgres(url));
+}
+
+export type Database = ReturnType<typeof createDb>;
@@ -0,0 +1,55 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { backoffDelay, classifyFailure } from "./delivery";
+
+// Errors shaped like the ones axios throws for Zoho responses and network problems.
+const httpError = (status: number, data: unknown = {}, headers: Record<string, string> = {}) => ({ response: { status, data, headers } });
+
+describe("classifyFailure", () => {
+  test("retries rate limiting and server errors, keeping Retry-After", () => {
+    assert.deepEqual(classifyFailure(httpError(429, {}, { "retry-after": "7" })), { type: "transient", reason: "rate_limited", responseCode: 429, retryAfterMs: 7000 });
+    assert.deepEqual(classifyFailure(httpError(503)), { type: "transient", reason: "server_error", responseCode: 503, retryAfterMs: null });
+  });
+
+  test("retries expired tokens, also when the error came from the token refresh", () => {
+    assert.equal(classifyFailure(httpError(401)).reason, "token_expired");
+    assert.equal(classifyFailure(httpError(400, { data: { errorCode: "INVALID_OAUTHTOKEN" } })).reason, "token_expired");
+    const refreshError = Object.assign(new Error("Token refresh failed"), { cause: httpError(401) });
+    assert.equal(classifyFailure(refreshError).type, "transient");
+  });
+
+  test("does not retry rejected recipients or blocked senders", () => {
+    assert.deepEqual(classifyFailure(httpError(400, { message: "Invalid to address" })), { type: "permanent", reason: "invalid_recipient", responseCode: 400, retryAfterMs: null });
+    assert.equal(classifyFailure(httpError(403)).reason, "sender_blocked");
+    assert.equal(classifyFailure(httpError(404)).reason, "rejected");
+  });
+
+  test("retries timeouts and network errors", () => {
+    assert.deepEqual(classifyFailure({ code: "ECONNABORTED", message: "timeout of 30000ms exceeded" }), { type: "transient", reason: "timeout", responseCode: 504, retryAfterMs: null });
+    assert.deepEqual(classifyFailure({ code: "ECONNRESET", message: "socket hang up" }), { type: "transient", reason: "network_error", responseCode: 503, retryAfterMs: null });
+  });
+
+  test("does not retry the server's own validation errors", () => {
+    assert.deepEqual(classifyFailure(new Error("From address not found in Zoho sub-accounts.")), { type: "permanent", reason: "invalid_request", responseCode: 500, retryAfterMs: null });
+  });
+});
+
+describe("backoffDelay", () => {
+  test("doubles per attempt, with jitter between half and all of the step", () => {
+    for (const [attempt, step] of [[1, 1000], [2, 2000], [3, 4000]]) {
+      for (let i = 0; i < 20; i++) {
+        const delay = backoffDelay(attempt);
+        assert.ok(delay >= step / 2 && delay <= step, `attempt ${attempt}: ${delay}`);
+      }
+    }
+  });
+
+  test("is capped at 30 seconds", () => {
+    assert.ok(backoffDelay(20) <= 30000);
+  });
+
+  test("waits at least as long as Retry-After asks", () => {
+    assert.equal(backoffDelay(1, 10000), 10000);
+    assert.ok(backoffDelay(3, 100) >= 2000);
+  });
+});
@@ -0,0 +1,103 @@
+import { splitAddresses, type EmailResult, type FailureType, type MessageBody, type MessageOptions, type SendAttempt } from "@shared/schema";
+import { textPart } from "@shared/html-to-text";
+import { type MergeRender } from "@shared/merge";
+
+export type SendResult = {
+  success: boolean;
+  data?: any;
+  error?: any;
+  responseCode: number;
+  failureType: FailureType | null;
+  attempts: SendAttempt[];
+};
+export type SendEmailFn = (primaryAccountKey: string, fromAddress: string, mailOptions: any) => Promise<SendResult>;
+
+export const MAX_SEND_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK'];
+// What axios reports when a Zoho request runs past the zohoHttp timeout.
+const TIMEOUT_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+export type FailureClassification = { type: FailureType; reason: string; responseCode: number; retryAfterMs: number | null };
+
+// Decides whether a failed send is worth retrying. Errors thrown while refreshing the
+// access token keep the original axios error as their `cause`, so we look through it.
+export function classifyFailure(error: any): FailureClassification {
+  const rootError = error?.cause ?? error;
+  const response = rootError?.response;
+
+  if (response) {
+    const status: number = response.status;
+    const retryAfter = parseInt(response.headers?.['retry-after'], 10);
+    const retryAfterMs = Number.isNaN(retryAfter) ? null : retryAfter * 1000;
+    if (status === 429) return { type: 'transient', reason: 'rate_limited', responseCode: status, retryAfterMs };
+    if (status >= 500) return { type: 'transient', reason: 'server_error', responseCode: status, retryAfterMs };
+    const body = JSON.stringify(response.data ?? '');
+    if (status === 401 || /INVALID_OAUTHTOKEN/i.test(body)) return { type: 'transient', reason: 'token_expired', responseCode: status, retryAfterMs: null };
+    if (status === 400 && /invalid[\s_]*(recipient|to[\s_]*address|email)/i.test(body)) {
+      return { type: 'permanent', reason: 'invalid_recipient', responseCode: status, retryAfterMs: null };
+    }
+    if (status === 403) return { type: 'permanent', reason: 'sender_blocked', responseCode: status, retryAfterMs: null };
+    return { type: 'permanent', reason: 'rejected', responseCode: status, retryAfterMs: null };
+  }
+
+  if (TIMEOUT_ERROR_CODES.includes(rootError?.code) || /timeout/i.test(rootError?.message || '')) {
+    return { type: 'transient', reason: 'timeout', responseCode: 504, retryAfterMs: null };
+  }
+  if (NETWORK_ERROR_CODES.includes(rootError?.code)) {
+    return { type: 'transient', reason: 'network_error', responseCode: 503, retryAfterMs: null };
+  }
+
+  // Our own validation errors (unknown account, unknown sender, bad address) never fix themselves.
+  return { type: 'permanent', reason: 'invalid_request', responseCode: 500, retryAfterMs: null };
+}
+
+// Exponential backoff with jitter: somewhere between half and all of base * 2^(attempt - 1).
+export function backoffDelay(attempt: number, retryAfterMs: number | null = null): number {
+  const exponential = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return retryAfterMs !== null ? Math.max(retryAfterMs, jittered) : jittered;
+}
+
+export function toEmailResult(recipient: string, result: SendResult): EmailResult {
+  return {
+    recipient,
+    status: result.success ? 'Success' : 'Failed',
+    messageId: result.success ? result.data.data.messageId : null,
+    responseCode: result.responseCode,
+    error: result.success ? null : result.error,
+    fullResponse: result.success ? result.data : result.error,
+    failureType: result.failureType,
+    attempts: result.attempts,
+  };
+}
+
+// The Zoho message fields for a send's copies, reply address and custom headers.
+// Fields that are not set are left out of the payload.
+export function messageOptions(data: MessageOptions): Record<string, unknown> {
+  const options: Record<string, unknown> = {};
+  const cc = splitAddresses(data.ccAddress ?? '');
+  const bcc = splitAddresses(data.bccAddress ?? '');
+  if (cc.length > 0) options.ccAddress = cc.join(',');
+  if (bcc.length > 0) options.bccAddress = bcc.join(',');
+  if (data.replyTo) options.replyTo = data.replyTo;
+  if (data.headers && data.headers.length > 0) {
+    options.headers = Object.fromEntries(data.headers.map(header => [header.name, header.value]));
+  }
+  return options;
+}
+
+// The Zoho body fields for a message. Plain text goes out as mailFormat "plaintext" with
+// the text as content; both parts go out as "html" with the text part in textContent, from
+// which Zoho builds a multipart/alternative message. render applies the recipient's merge
+// tags to each part.
+export function messageBody(body: MessageBody, render: MergeRender = template => template): Record<string, unknown> {
+  const html = render(body.content, 'html');
+  const format = body.mailFormat ?? 'html';
+  if (format === 'html') return { content: html, mailFormat: 'html' };
+  const text = textPart(body, render);
+  if (format === 'plaintext') return { content: text, mailFormat: 'plaintext' };
+  return { content: html, mailFormat: 'html', textContent: text };
+}
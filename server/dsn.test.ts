@@ -0,0 +1,95 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { classifyStatus, looksLikeDsn, parseDsn } from "./dsn";
+
+// A multipart/report DSN the way mailer-daemons send them: a human-readable part, the
+// machine-readable delivery-status part and the returned headers.
+const dsn = (statusBlocks: string, encoding?: string) => [
+  "From: Mail Delivery System <mailer-daemon@mx.example.net>",
+  "Subject: Undelivered Mail Returned to Sender",
+  "MIME-Version: 1.0",
+  'Content-Type: multipart/report; report-type=delivery-status; boundary="outer"',
+  "",
+  "--outer",
+  "Content-Type: text/plain",
+  "",
+  "Your message could not be delivered.",
+  "",
+  "--outer",
+  "Content-Type: message/delivery-status",
+  ...(encoding ? [`Content-Transfer-Encoding: ${encoding}`] : []),
+  "",
+  encoding === "base64" ? Buffer.from(statusBlocks).toString("base64") : statusBlocks,
+  "",
+  "--outer",
+  "Content-Type: text/rfc822-headers",
+  "",
+  "Subject: Hello",
+  "",
+  "--outer--",
+  "",
+].join("\r\n");
+
+const perMessage = "Reporting-MTA: dns; mx.example.net\r\nArrival-Date: Mon, 3 Mar 2025 09:00:00 +0000";
+
+describe("parseDsn", () => {
+  test("returns each failed and delayed recipient", () => {
+    const recipients = parseDsn(dsn([
+      perMessage,
+      "Final-Recipient: rfc822; gone@example.com\r\nAction: failed\r\nStatus: 5.1.1\r\nDiagnostic-Code: smtp; 550 5.1.1 User unknown",
+      "Final-Recipient: rfc822; <slow@example.com>\r\nAction: delayed\r\nStatus: 4.4.7",
+      "Final-Recipient: rfc822; fine@example.com\r\nAction: delivered\r\nStatus: 2.0.0",
+    ].join("\r\n\r\n")));
+    assert.deepEqual(recipients, [
+      { recipient: "gone@example.com", action: "failed", status: "5.1.1", diagnostic: "550 5.1.1 User unknown", bounceType: "hard" },
+      { recipient: "slow@example.com", action: "delayed", status: "4.4.7", diagnostic: null, bounceType: "soft" },
+    ]);
+  });
+
+  test("takes the status code from the diagnostic when Status is missing", () => {
+    const [recipient] = parseDsn(dsn(`${perMessage}\r\n\r\nFinal-Recipient: rfc822; full@example.com\r\nAction: failed\r\nDiagnostic-Code: smtp; 552 5.2.2 Mailbox full`));
+    assert.equal(recipient.status, "5.2.2");
+    assert.equal(recipient.bounceType, "soft");
+  });
+
+  test("falls back to Original-Recipient and joins folded fields", () => {
+    const [recipient] = parseDsn(dsn(`${perMessage}\r\n\r\nOriginal-Recipient: rfc822; old@example.com\r\nAction: failed\r\nStatus: 5.1.1\r\nDiagnostic-Code: smtp; 550 5.1.1 The email account\r\n  does not exist`));
+    assert.equal(recipient.recipient, "old@example.com");
+    assert.equal(recipient.diagnostic, "550 5.1.1 The email account does not exist");
+  });
+
+  test("decodes a base64 delivery-status part", () => {
+    const [recipient] = parseDsn(dsn(`${perMessage}\r\n\r\nFinal-Recipient: rfc822; gone@example.com\r\nAction: failed\r\nStatus: 5.1.1`, "base64"));
+    assert.equal(recipient.recipient, "gone@example.com");
+  });
+
+  test("ignores messages without a delivery-status part", () => {
+    assert.deepEqual(parseDsn("From: someone@example.com\r\nSubject: Hi\r\nContent-Type: text/plain\r\n\r\nHello"), []);
+  });
+});
+
+describe("bounce classification", () => {
+  test("delays and 4.x.x codes are soft", () => {
+    assert.equal(classifyStatus("delayed", "5.1.1"), "soft");
+    assert.equal(classifyStatus("failed", "4.2.0"), "soft");
+  });
+
+  test("mailbox, size and policy failures are soft", () => {
+    for (const status of ["5.2.2", "5.2.3", "5.3.4", "5.4.1", "5.7.1"]) {
+      assert.equal(classifyStatus("failed", status), "soft", status);
+    }
+  });
+
+  test("other permanent failures are hard, also without a code", () => {
+    assert.equal(classifyStatus("failed", "5.1.1"), "hard");
+    assert.equal(classifyStatus("failed", "5.2.1"), "hard");
+    assert.equal(classifyStatus("failed", null), "hard");
+  });
+
+  test("recognises reports by sender or subject", () => {
+    assert.equal(looksLikeDsn("MAILER-DAEMON@mx.example.net", "Hello"), true);
+    assert.equal(looksLikeDsn("postmaster@example.com", ""), true);
+    assert.equal(looksLikeDsn("noreply@example.com", "Delivery Status Notification (Failure)"), true);
+    assert.equal(looksLikeDsn("friend@example.com", "Lunch?"), false);
+  });
+});
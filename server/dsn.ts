@@ -0,0 +1,108 @@
+// Reads delivery status notifications (RFC 3464): the multipart/report messages a
+// mailer-daemon sends back when it could not deliver, or is still trying to deliver, a mail.
+
+export type BounceType = 'hard' | 'soft';
+
+export type DsnRecipient = {
+  recipient: string;
+  action: string;
+  status: string | null;
+  diagnostic: string | null;
+  bounceType: BounceType;
+};
+
+type MimePart = { headers: Map<string, string>; body: string };
+
+// Permanent failures that say nothing about the mailbox itself: a full mailbox, a message
+// that is too large, or a policy or spam rejection. These may go through later, so they
+// count as soft and do not suppress the address.
+const SOFT_PERMANENT_STATUSES = ['5.2.2', '5.2.3', '5.3.4'];
+const SOFT_PERMANENT_PREFIXES = ['5.4.', '5.7.'];
+
+// Senders and subjects of the messages worth downloading and parsing.
+const DSN_SENDER = /mailer-daemon|postmaster/i;
+const DSN_SUBJECT = /undeliver|delivery status notification|delivery failure|returned mail|failure notice|delivery has failed|could not be delivered/i;
+
+export function looksLikeDsn(fromAddress: string, subject: string): boolean {
+  return DSN_SENDER.test(fromAddress) || DSN_SUBJECT.test(subject);
+}
+
+// Header fields with their folded lines joined, keyed by lower-case name.
+function parseFields(text: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  let current: string | null = null;
+  for (const line of text.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && current) {
+      fields.set(current, `${fields.get(current)} ${line.trim()}`);
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    current = line.slice(0, colon).trim().toLowerCase();
+    fields.set(current, line.slice(colon + 1).trim());
+  }
+  return fields;
+}
+
+function parsePart(raw: string): MimePart {
+  const separator = raw.match(/\r?\n\r?\n/);
+  if (!separator || separator.index === undefined) return { headers: parseFields(raw), body: '' };
+  return { headers: parseFields(raw.slice(0, separator.index)), body: raw.slice(separator.index + separator[0].length) };
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (part.headers.get('content-transfer-encoding') ?? '').toLowerCase();
+  if (encoding === 'base64') return Buffer.from(part.body.replace(/\s+/g, ''), 'base64').toString('utf8');
+  if (encoding === 'quoted-printable') {
+    return part.body
+      .replace(/=\r?\n/g, '')
+      .replace(/=([0-9A-F]{2})/gi, (_match, hex) => String.fromCharCode(parseInt(hex, 16)));
+  }
+  return part.body;
+}
+
+// The part and all parts nested in it, depth first.
+function flattenParts(part: MimePart): MimePart[] {
+  const contentType = part.headers.get('content-type') ?? '';
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+  if (!/^multipart\//i.test(contentType) || !boundary) return [part];
+  const children = part.body
+    .split(`--${boundary}`)
+    .slice(1)
+    .filter(chunk => !chunk.startsWith('--'))
+    .map(chunk => parsePart(chunk.replace(/^\r?\n/, '')));
+  return [part, ...children.flatMap(flattenParts)];
+}
+
+// "rfc822; user@example.com" -> "user@example.com"
+const fieldValue = (value: string | undefined) => value ? value.slice(value.indexOf(';') + 1).trim().replace(/^<|>$/g, '') : '';
+
+export function classifyStatus(action: string, status: string | null): BounceType {
+  if (action === 'delayed') return 'soft';
+  // A failure without a code is still permanent.
+  if (!status) return 'hard';
+  if (status.startsWith('4.')) return 'soft';
+  if (SOFT_PERMANENT_STATUSES.includes(status) || SOFT_PERMANENT_PREFIXES.some(prefix => status.startsWith(prefix))) return 'soft';
+  return 'hard';
+}
+
+// The failed and delayed recipients of a raw DSN message. Messages that are not
+// multipart/report DSNs, and recipients that were delivered or relayed, give nothing.
+export function parseDsn(raw: string): DsnRecipient[] {
+  const report = flattenParts(parsePart(raw)).find(part => /^message\/(global-)?delivery-status/i.test(part.headers.get('content-type') ?? ''));
+  if (!report) return [];
+
+  // The first block holds the per-message fields; each further block is one recipient.
+  const blocks = decodeBody(report).trim().split(/\r?\n[ \t]*\r?\n/).slice(1).map(parseFields);
+  const recipients: DsnRecipient[] = [];
+  for (const fields of blocks) {
+    const recipient = fieldValue(fields.get('final-recipient') ?? fields.get('original-recipient'));
+    const action = (fields.get('action') ?? '').toLowerCase();
+    if (!recipient || (action !== 'failed' && action !== 'delayed')) continue;
+    const diagnostic = fieldValue(fields.get('diagnostic-code')) || null;
+    // Some servers leave Status out; the enhanced code is then usually in the diagnostic.
+    const status = fields.get('status')?.match(/[245]\.\d{1,3}\.\d{1,3}/)?.[0] ?? diagnostic?.match(/\b[245]\.\d{1,3}\.\d{1,3}\b/)?.[0] ?? null;
+    recipients.push({ recipient, action, status, diagnostic, bounceType: classifyStatus(action, status) });
+  }
+  return recipients;
+}
@@ -0,0 +1,47 @@
+// Copies the JSON-file data (accounts.json, bounces.json and the other stores) into
+// Postgres. Run `npm run db:push` first to create the tables, then `npm run db:import`.
+// Safe to run more than once: rows that are already there are skipped or updated.
+import 'dotenv/config';
+import { MemStorage } from "./storage";
+import { DbStorage } from "./db-storage";
+import { createDb } from "./db";
+
+async function importJsonData() {
+  const db = createDb();
+  const source = new MemStorage();
+  const target = new DbStorage(db);
+
+  const existingKeys = new Set((await target.getEmailAccounts()).map(account => account.account_key));
+  const accounts = (await source.getEmailAccounts()).filter(account => !existingKeys.has(account.account_key));
+  for (const account of accounts) {
+    await target.addEmailAccount(account);
+  }
+  console.log(`Accounts: ${accounts.length} imported`);
+
+  console.log(`Bounces: ${await target.importBounces(await source.getBounces())} imported`);
+  console.log(`Send log: ${await target.importSendLog(await source.getSendLog())} entries imported`);
+
+  const suppressions = await target.addSuppressions(await source.getSuppressions());
+  console.log(`Suppressions: ${suppressions.length} imported`);
+
+  const rateLimits = await source.getRateLimits();
+  for (const limit of rateLimits) await target.saveRateLimit(limit);
+  const campaigns = await source.getCampaigns();
+  for (const campaign of campaigns) await target.saveCampaign(campaign);
+  const templates = await source.getTemplates();
+  for (const template of templates) await target.saveTemplate(template);
+  const jobs = await source.getScheduledJobs();
+  for (const job of jobs) await target.saveScheduledJob(job);
+  const webhookEvents = await source.getWebhookEvents();
+  for (const event of webhookEvents) await target.saveWebhookEvent(event);
+  const openTrackings = await source.getAllOpenTrackings();
+  for (const record of openTrackings) await target.saveOpenTracking(record);
+  console.log(`Rate limits: ${rateLimits.length}, campaigns: ${campaigns.length}, templates: ${templates.length}, scheduled jobs: ${jobs.length}, webhook events: ${webhookEvents.length}, open tracking tokens: ${openTrackings.length} saved`);
+
+  await db.$client.end();
+}
+
+importJsonData().catch(error => {
+  console.error("Import failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+import { type EmailAccount, type InboxMessage, type InboxPage, type InboxQuery } from "@shared/schema";
+
+// A sub-account mailbox, read with the credentials of its primary account.
+export type Mailbox = { account: EmailAccount; subAccountKey: string; emailAddress: string };
+
+export type MessageListOptions = { start: number; limit: number; search?: string; unreadOnly: boolean };
+
+// A message as Mail360 lists it. Flags and times come as strings or numbers.
+export type ZohoMessageSummary = {
+  messageId: string;
+  fromAddress?: string;
+  sender?: string;
+  toAddress?: string;
+  subject?: string;
+  summary?: string;
+  receivedTime?: string | number;
+  status?: string | number;
+  hasAttachment?: string | number;
+  [field: string]: unknown;
+};
+
+export type ListMessagesFn = (mailbox: Mailbox, options: MessageListOptions) => Promise<ZohoMessageSummary[]>;
+export type ListMailboxesFn = (account: EmailAccount) => Promise<Mailbox[]>;
+
+// The unified inbox reads this many messages from each mailbox at most, so pages stop
+// at MAX_INBOX_DEPTH / pageSize.
+export const MAX_INBOX_DEPTH = 200;
+
+export function toInboxMessage(mailbox: Mailbox, summary: ZohoMessageSummary): InboxMessage {
+  const receivedTime = Number(summary.receivedTime);
+  return {
+    messageId: String(summary.messageId),
+    accountKey: mailbox.account.account_key,
+    subAccountKey: mailbox.subAccountKey,
+    mailbox: mailbox.emailAddress,
+    fromAddress: summary.fromAddress ?? '',
+    sender: summary.sender ?? summary.fromAddress ?? '',
+    toAddress: summary.toAddress ?? '',
+    subject: summary.subject ?? '',
+    summary: summary.summary ?? '',
+    receivedAt: new Date(Number.isFinite(receivedTime) ? receivedTime : 0).toISOString(),
+    // Zoho marks read messages with status "1".
+    read: String(summary.status) === '1',
+    hasAttachment: String(summary.hasAttachment) === '1',
+  };
+}
+
+// Merges the messages of every sub-account of the given primary accounts into one list,
+// newest first. Mail360 pages each mailbox separately, so page N reads the newest
+// N * pageSize messages of every mailbox and keeps the slice that belongs to page N.
+export class UnifiedInbox {
+  constructor(private listMessages: ListMessagesFn, private listMailboxes: ListMailboxesFn) {}
+
+  async page(accounts: EmailAccount[], query: InboxQuery): Promise<InboxPage> {
+    const depth = query.page * query.pageSize;
+    if (depth > MAX_INBOX_DEPTH) throw new Error(`The inbox only goes back ${MAX_INBOX_DEPTH} messages per mailbox; narrow it down with a search.`);
+    const errors: InboxPage['errors'] = [];
+
+    const mailboxes: Mailbox[] = [];
+    await Promise.all(accounts.map(async account => {
+      try {
+        mailboxes.push(...await this.listMailboxes(account));
+      } catch (error: any) {
+        errors.push({ mailbox: account.name, message: error.message });
+      }
+    }));
+    const selected = query.subAccountKey ? mailboxes.filter(mailbox => mailbox.subAccountKey === query.subAccountKey) : mailboxes;
+
+    let mayHaveMore = false;
+    const messages: InboxMessage[] = [];
+    await Promise.all(selected.map(async mailbox => {
+      try {
+        const summaries = await this.listMessages(mailbox, { start: 1, limit: depth, search: query.search || undefined, unreadOnly: query.status === "unread" });
+        if (summaries.length >= depth) mayHaveMore = true;
+        for (const summary of summaries) {
+          const message = toInboxMessage(mailbox, summary);
+          // Searches cannot filter on read state in Zoho, so unread is applied here.
+          if (query.status === "unread" && message.read) continue;
+          messages.push(message);
+        }
+      } catch (error: any) {
+        errors.push({ mailbox: mailbox.emailAddress, message: error.message });
+      }
+    }));
+
+    messages.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+    return {
+      messages: messages.slice(depth - query.pageSize, depth),
+      page: query.page,
+      pageSize: query.pageSize,
+      // Pages past MAX_INBOX_DEPTH cannot be read, so they are not offered.
+      hasMore: depth + query.pageSize <= MAX_INBOX_DEPTH && (mayHaveMore || messages.length > depth),
+      errors,
+    };
+  }
+}
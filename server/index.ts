@@ -1,20 +1,25 @@
-import dotenv from 'dotenv';
-dotenv.config(); // Load secrets right at the start
+// Load secrets before any other module reads process.env (storage picks its backend on import).
+import 'dotenv/config';
 
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { drizzle } from 'drizzle-orm/postgres-js';
-import postgres from 'postgres';
+
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody: unknown
+  }
+}
 
 const app = express();
-app.use(express.json());
+// The raw body is kept for routes that check a signature over it (webhooks).
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
-// Create the database connection here, after dotenv has run.
-const client = postgres(process.env.DATABASE_URL!);
-const db = drizzle(client);
-
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -44,8 +49,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  // Pass the db connection directly into the function that sets up the routes.
-  const server = await registerRoutes(app, db);
+  const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
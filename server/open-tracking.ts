@@ -0,0 +1,60 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { type Campaign, type EmailResult, type OpenEvent, type OpenSummary } from "@shared/schema";
+
+// A transparent 1x1 GIF, the body of every pixel response.
+export const PIXEL_GIF = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64");
+
+// Pixels point at PUBLIC_APP_URL, the address recipients' mail clients can reach this app
+// at. Without it open tracking is refused when a send is accepted.
+export function publicAppUrl(): string | undefined {
+  return process.env.PUBLIC_APP_URL?.replace(/\/+$/, "") || undefined;
+}
+
+export const openPixelUrl = (token: string) => `${publicAppUrl()}/t/o/${token}`;
+
+// Registers a pixel token for one recipient of a bulk send or campaign. Returns undefined
+// when tracking is off for the send (or PUBLIC_APP_URL went away since it was accepted).
+export async function trackingTokenFor(trackOpens: boolean | undefined, batchId: string, recipient: string): Promise<string | undefined> {
+  if (!trackOpens || !publicAppUrl()) return undefined;
+  const token = randomBytes(16).toString("base64url");
+  await storage.saveOpenTracking({ token, batchId, recipient, count: 0, firstOpen: null, lastOpen: null, createdAt: new Date().toISOString() });
+  return token;
+}
+
+// Puts the pixel at the end of the body, inside </body> when the HTML has one.
+export function withOpenPixel(html: string, token: string): string {
+  const pixel = `<img src="${openPixelUrl(token)}" width="1" height="1" alt="" style="display:block;width:1px;height:1px;border:0;" />`;
+  const bodyEnd = html.search(/<\/body>/i);
+  return bodyEnd === -1 ? `${html}${pixel}` : `${html.slice(0, bodyEnd)}${pixel}${html.slice(bodyEnd)}`;
+}
+
+// Counts a pixel load. Unknown tokens are ignored; the caller answers with the GIF anyway.
+export async function recordOpen(token: string, open: OpenEvent): Promise<void> {
+  const [record] = await storage.getOpenTrackings([token]);
+  if (!record) return;
+  await storage.saveOpenTracking({ ...record, count: record.count + 1, firstOpen: record.firstOpen ?? open, lastOpen: open });
+}
+
+async function openSummaries(results: (EmailResult | null)[]): Promise<Map<string, OpenSummary>> {
+  const tokens = results.flatMap(result => result?.trackingToken ? [result.trackingToken] : []);
+  if (tokens.length === 0) return new Map();
+  const records = await storage.getOpenTrackings(tokens);
+  return new Map(records.map(record => [record.token, { count: record.count, firstOpen: record.firstOpen, lastOpen: record.lastOpen }]));
+}
+
+function addOpens<T extends EmailResult>(result: T, opens: Map<string, OpenSummary>): T {
+  const summary = result.trackingToken ? opens.get(result.trackingToken) : undefined;
+  return summary ? { ...result, opens: summary } : result;
+}
+
+// Adds the open counts to tracked results, for the results table.
+export async function withOpens<T extends EmailResult>(results: T[]): Promise<T[]> {
+  const opens = await openSummaries(results);
+  return results.map(result => addOpens(result, opens));
+}
+
+export async function withCampaignOpens(campaign: Campaign): Promise<Campaign> {
+  const opens = await openSummaries(campaign.recipients.map(entry => entry.result));
+  return { ...campaign, recipients: campaign.recipients.map(entry => entry.result ? { ...entry, result: addOpens(entry.result, opens) } : entry) };
+}
@@ -0,0 +1,134 @@
+import { storage } from "./storage";
+import { type RateLimit, type QuotaWindow, type SendQuota } from "@shared/schema";
+
+const WINDOWS = {
+  minute: { field: 'perMinute', ms: 60 * 1000 },
+  hour: { field: 'perHour', ms: 60 * 60 * 1000 },
+  day: { field: 'perDay', ms: 24 * 60 * 60 * 1000 },
+} as const;
+
+type WindowName = keyof typeof WINDOWS;
+
+const bucketId = (scope: RateLimit['scope'], key: string) => `${scope}:${key}`;
+
+// Page size used when reading back the send log on startup.
+const LOG_PAGE_SIZE = 200;
+
+// Sliding-window limiter for Zoho sends. Limits are read from storage on every check,
+// so changes made through the API apply to sends that are already waiting.
+export class RateLimiter {
+  // Send timestamps of the last 24 hours, per "scope:key", oldest first.
+  private sent: Map<string, number[]>;
+  private loading: Promise<void> | null;
+
+  constructor() {
+    this.sent = new Map();
+    this.loading = null;
+  }
+
+  // Waits until both the primary account and the sender have capacity, then counts one send
+  // against each. Returns the time the send was counted at, for release().
+  async acquire(accountKey: string, fromAddress: string): Promise<number> {
+    await this.load();
+    const buckets: [RateLimit['scope'], string][] = [['account', accountKey], ['sender', fromAddress]];
+    while (true) {
+      const limits = await storage.getRateLimits();
+      const now = Date.now();
+      const wait = Math.max(...buckets.map(([scope, key]) => this.waitTime(this.findLimit(limits, scope, key), bucketId(scope, key), now)));
+      if (wait <= 0) {
+        for (const [scope, key] of buckets) {
+          const id = bucketId(scope, key);
+          this.sent.set(id, [...this.timestamps(id, now), now]);
+        }
+        return now;
+      }
+      console.log(`Rate limit reached for ${fromAddress}, waiting ${Math.ceil(wait / 1000)}s`);
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+
+  // Gives back a send acquired at the given time that ended up failing. Only successful sends
+  // count, the same as the ones read back from the send log on startup.
+  release(accountKey: string, fromAddress: string, time: number) {
+    for (const id of [bucketId('account', accountKey), bucketId('sender', fromAddress)]) {
+      const times = this.sent.get(id) || [];
+      const index = times.indexOf(time);
+      if (index !== -1) times.splice(index, 1);
+    }
+  }
+
+  async getQuota(scope: RateLimit['scope'], key: string): Promise<SendQuota> {
+    await this.load();
+    const limit = this.findLimit(await storage.getRateLimits(), scope, key);
+    const now = Date.now();
+    const sent = this.timestamps(bucketId(scope, key), now);
+    const windowQuota = (name: WindowName): QuotaWindow => {
+      const max = limit ? limit[WINDOWS[name].field] : null;
+      const used = sent.filter(time => time > now - WINDOWS[name].ms).length;
+      return { limit: max, used, remaining: max === null ? null : Math.max(0, max - used) };
+    };
+    return { minute: windowQuota('minute'), hour: windowQuota('hour'), day: windowQuota('day') };
+  }
+
+  // The windows start out with the successful sends of the last 24 hours from the send log,
+  // so a restart does not hand out a fresh daily quota. Runs once; later sends are counted
+  // as they are acquired, and released again if they fail.
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadFromSendLog().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadFromSendLog() {
+    const since = new Date(Date.now() - WINDOWS.day.ms).toISOString();
+    const loaded = new Map<string, number[]>();
+    for (let page = 1; ; page++) {
+      const { entries } = await storage.querySendLog({ page, pageSize: LOG_PAGE_SIZE, status: 'Success', since });
+      for (const entry of entries) {
+        const time = new Date(entry.sentAt).getTime();
+        for (const id of [bucketId('account', entry.accountKey), bucketId('sender', entry.fromAddress)]) {
+          const times = loaded.get(id) || [];
+          times.push(time);
+          loaded.set(id, times);
+        }
+      }
+      if (entries.length < LOG_PAGE_SIZE) break;
+    }
+    for (const [id, times] of Array.from(loaded)) {
+      this.sent.set(id, times.sort((a, b) => a - b));
+    }
+  }
+
+  private findLimit(limits: RateLimit[], scope: RateLimit['scope'], key: string) {
+    return limits.find(limit => limit.scope === scope && limit.key === key);
+  }
+
+  // Timestamps still inside the longest window; older ones are dropped.
+  private timestamps(id: string, now: number): number[] {
+    const recent = (this.sent.get(id) || []).filter(time => time > now - WINDOWS.day.ms);
+    this.sent.set(id, recent);
+    return recent;
+  }
+
+  // Milliseconds until one more send fits in every window of the limit (0 if it fits now).
+  private waitTime(limit: RateLimit | undefined, id: string, now: number): number {
+    if (!limit) return 0;
+    const sent = this.timestamps(id, now);
+    let wait = 0;
+    for (const { field, ms } of Object.values(WINDOWS)) {
+      const max = limit[field];
+      if (max === null) continue;
+      const inWindow = sent.filter(time => time > now - ms);
+      if (inWindow.length >= max) {
+        // The window frees up once the oldest send that still counts falls out of it.
+        const oldest = inWindow[inWindow.length - max];
+        wait = Math.max(wait, oldest + ms - now + 1);
+      }
+    }
+    return wait;
+  }
+}
@@ -0,0 +1,28 @@
+// Re-encrypts every account's credentials with the current ACCOUNTS_MASTER_KEY.
+//
+// To rotate: generate a key with `npm run accounts:rotate-key -- --generate`, set it as
+// ACCOUNTS_MASTER_KEY and move the old key to ACCOUNTS_PREVIOUS_MASTER_KEYS, then run
+// `npm run accounts:rotate-key`. Once it finishes the old key can be removed.
+// Accounts still stored in plain text are encrypted by the same run.
+import 'dotenv/config';
+import { storage } from "./storage";
+import { generateMasterKey } from "./secrets";
+
+async function rotateAccountKeys() {
+  if (process.argv.includes("--generate")) {
+    console.log(generateMasterKey());
+    return;
+  }
+  const accounts = await storage.getEmailAccounts();
+  for (const account of accounts) {
+    await storage.updateEmailAccount(account);
+  }
+  console.log(`Re-encrypted credentials for ${accounts.length} account(s).`);
+}
+
+rotateAccountKeys()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Key rotation failed:", error.message);
+    process.exit(1);
+  });
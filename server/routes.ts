@@ -1,19 +1,35 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { singleEmailSchema, bulkEmailSchema, type EmailAccount, type EmailResult } from "@shared/schema";
-import axios from "axios";
+import { CampaignRunner } from "./campaigns";
+import { Scheduler } from "./scheduler";
+import { RateLimiter } from "./rate-limiter";
+import { SuppressionLookup, messageAddresses, screenAddresses, screenedOptions, toSuppressedResult, type SuppressionMatch } from "./suppression";
+import { recordSend } from "./send-log";
+import { toPublicAccount } from "./secrets";
+import { PendingConnections, buildAuthorizeUrl, exchangeAuthorizationCode, oauthRedirectUri, zohoOAuthScopes } from "./zoho-oauth";
+import { mail360Url, regionForAccountsServer, zohoAccountsUrl } from "./zoho-regions";
+import { zohoHttp } from "./zoho-http";
+import { SubAccountCache, type ZohoSubAccountsResponse } from "./sub-accounts";
+import { TokenManager, type AccessTokenGrant } from "./token-manager";
+import { SenderRotation, sendersFor, type SenderChecks } from "./sender-rotation";
+import { BouncePoller } from "./bounce-poller";
+import { PIXEL_GIF, publicAppUrl, recordOpen, trackingTokenFor, withCampaignOpens, withOpenPixel, withOpens } from "./open-tracking";
+import { SIGNATURE_HEADER, receiveWebhook, replayWebhookEvent, verifySignature, webhookSecret } from "./webhooks";
+import { UnifiedInbox, type Mailbox, type MessageListOptions, type ZohoMessageSummary } from "./inbox";
+import { ZohoAttachmentUploads, attachmentStore, toAttachmentInfo, type ZohoAttachmentRef } from "./attachments";
+import { classifyFailure, backoffDelay, messageBody, messageOptions, toEmailResult, MAX_SEND_ATTEMPTS, type SendResult } from "./delivery";
+import { fieldsForRecipient, mergeRenderer, renderMergeTags } from "@shared/merge";
+import { singleEmailSchema, bulkEmailSchema, rescheduleSchema, rateLimitSchema, insertSuppressionSchema, suppressionReasonSchema, insertTemplateSchema, updateTemplateSchema, sendLogQuerySchema, inboxQuerySchema, updateAccountSchema, zohoRegionSchema, createSubAccountSchema, updateSubAccountSchema, splitAddresses, MAX_ATTACHMENT_BYTES, type Attachment, type BulkEmail, type CreateSubAccount, type UpdateSubAccount, type EmailAccount, type EmailTemplate, type EmailResult, type InboxAttachment, type InboxMessageDetail, type SendAttempt, type SingleEmail } from "@shared/schema";
 import { nanoid } from "nanoid";
+import { randomUUID } from "crypto";
 import { URLSearchParams } from "url";
 import { z } from "zod";
 
-// NOTE: All database connection code (drizzle, postgres) has been removed.
+// Every send goes through this limiter, whatever endpoint or campaign it comes from.
+const rateLimiter = new RateLimiter();
 
-// Global cache for access tokens (no changes)
-const tokenCache: Record<string, { access_token: string; expires_at: number }> = {};
-
-// All helper functions (getNewAccessToken, etc.) remain exactly the same.
-const getNewAccessToken = async (account: EmailAccount) => {
+const getNewAccessToken = async (account: EmailAccount): Promise<AccessTokenGrant> => {
   console.log(`Generating new access token for: ${account.name}`);
   const params = new URLSearchParams();
   params.append('refresh_token', account.refresh_token);
@@ -21,56 +37,249 @@ const getNewAccessToken = async (account: EmailAccount) => {
   params.append('client_secret', account.client_secret);
   params.append('grant_type', 'refresh_token');
   try {
-    const response = await axios.post('https://accounts.zoho.com/oauth/v2/token', params, { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } });
+    const response = await zohoHttp.post(`${zohoAccountsUrl(account.region)}/oauth/v2/token`, params, { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } });
     const { access_token, expires_in } = response.data;
+    // Zoho reports a bad refresh token as a 200 with an "error" field.
+    if (!access_token) { throw new Error(response.data.error || 'Zoho did not return an access token.'); }
     console.log(`Successfully generated new token for ${account.name}`);
     return { access_token, expires_in };
   } catch (error: any) {
     console.error('Error getting access token:', error.response ? error.response.data : error.message);
-    throw new Error('Failed to authenticate with Zoho.');
+    throw new Error('Failed to authenticate with Zoho.', { cause: error });
   }
 };
-const getZohoAccessToken = async (account: EmailAccount) => {
-  const accountId = account.name;
-  const currentTime = Date.now();
-  const cachedToken = tokenCache[accountId];
-  if (!cachedToken || currentTime >= cachedToken.expires_at) {
+// Access tokens per account, refreshed once however many requests need a new one.
+const tokenManager = new TokenManager(getNewAccessToken);
+// Verifies an account from scratch: a fresh OAuth refresh that ignores the token cache,
+// then the sub-account list. Throws with Zoho's error when either step fails.
+const testAccountCredentials = async (account: EmailAccount) => {
+  const grant = await getNewAccessToken(account);
+  tokenManager.store(account.account_key, grant);
+  const zohoResponse = await zohoHttp.get(`${mail360Url(account.region)}/api/accounts`, { headers: { 'Content-Type': 'application/json', 'Authorization': `Zoho-oauthtoken ${grant.access_token}` } });
+  subAccountCache.store(account.account_key, zohoResponse.data);
+  return zohoResponse.data;
+};
+const getZohoSubAccounts = async (account: EmailAccount): Promise<ZohoSubAccountsResponse> => {
+  return tokenManager.withToken(account, async (accessToken) => {
+    const zohoResponse = await zohoHttp.get(`${mail360Url(account.region)}/api/accounts`, { headers: { 'Content-Type': 'application/json', 'Authorization': `Zoho-oauthtoken ${accessToken}` } });
+    return zohoResponse.data;
+  });
+};
+// Mail360 account management. Each change is followed by a refresh of the sub-account cache.
+const createZohoSubAccount = async (account: EmailAccount, subAccount: Omit<CreateSubAccount, 'accountKey'>) => {
+  return tokenManager.withToken(account, async (accessToken) => {
+    const response = await zohoHttp.post(`${mail360Url(account.region)}/api/accounts`, subAccount, { headers: { 'Content-Type': 'application/json', 'Authorization': `Zoho-oauthtoken ${accessToken}` } });
+    return response.data;
+  });
+};
+const updateZohoSubAccount = async (account: EmailAccount, subAccountKey: string, changes: Omit<UpdateSubAccount, 'accountKey'>) => {
+  return tokenManager.withToken(account, async (accessToken) => {
+    const response = await zohoHttp.put(`${mail360Url(account.region)}/api/accounts/${subAccountKey}`, changes, { headers: { 'Content-Type': 'application/json', 'Authorization': `Zoho-oauthtoken ${accessToken}` } });
+    return response.data;
+  });
+};
+const deleteZohoSubAccount = async (account: EmailAccount, subAccountKey: string) => {
+  return tokenManager.withToken(account, async (accessToken) => {
+    const response = await zohoHttp.delete(`${mail360Url(account.region)}/api/accounts/${subAccountKey}`, { headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` } });
+    return response.data;
+  });
+};
+// Sends look their sender up here instead of listing the sub-accounts on every message.
+const subAccountCache = new SubAccountCache(getZohoSubAccounts);
+const uploadAttachmentToZoho = async (account: EmailAccount, subAccountKey: string, attachment: Attachment): Promise<ZohoAttachmentRef> => {
+  const data = await attachmentStore.read(attachment.id);
+  return tokenManager.withToken(account, async (accessToken) => {
+    const response = await zohoHttp.post(`${mail360Url(account.region)}/api/accounts/${subAccountKey}/messages/attachments`, data, { params: { fileName: attachment.fileName }, headers: { 'Content-Type': 'application/octet-stream', 'Authorization': `Zoho-oauthtoken ${accessToken}` }, maxBodyLength: Infinity });
+    const uploaded = Array.isArray(response.data.data) ? response.data.data[0] : response.data.data;
+    return { storeName: uploaded.storeName, attachmentPath: uploaded.attachmentPath, attachmentName: uploaded.attachmentName };
+  });
+};
+const attachmentUploads = new ZohoAttachmentUploads(uploadAttachmentToZoho);
+// Reading the sub-account mailboxes through the Mail360 messages API. Searches use Zoho's
+// search syntax with the term matched anywhere in the message.
+const mailboxPath = (mailbox: Mailbox, path: string) => `${mail360Url(mailbox.account.region)}/api/accounts/${encodeURIComponent(mailbox.subAccountKey)}${path}`;
+const listZohoMessages = async (mailbox: Mailbox, options: MessageListOptions): Promise<ZohoMessageSummary[]> => {
+  return tokenManager.withToken(mailbox.account, async (accessToken) => {
+    const headers = { 'Authorization': `Zoho-oauthtoken ${accessToken}` };
+    const response = options.search
+      ? await zohoHttp.get(mailboxPath(mailbox, '/messages/search'), { headers, params: { searchKey: `entire:${options.search}`, start: options.start, limit: options.limit } })
+      : await zohoHttp.get(mailboxPath(mailbox, '/messages'), { headers, params: { start: options.start, limit: options.limit, status: options.unreadOnly ? 'unread' : undefined } });
+    return response.data.data ?? [];
+  });
+};
+const getZohoMessage = async (mailbox: Mailbox, messageId: string): Promise<InboxMessageDetail> => {
+  return tokenManager.withToken(mailbox.account, async (accessToken) => {
+    const headers = { 'Authorization': `Zoho-oauthtoken ${accessToken}` };
+    const messagePath = `/messages/${encodeURIComponent(messageId)}`;
+    const [content, header, attachmentInfo] = await Promise.all([
+      zohoHttp.get(mailboxPath(mailbox, `${messagePath}/content`), { headers }),
+      zohoHttp.get(mailboxPath(mailbox, `${messagePath}/header`), { headers }),
+      zohoHttp.get(mailboxPath(mailbox, `${messagePath}/attachmentinfo`), { headers }),
+    ]);
+    const attachments: InboxAttachment[] = (attachmentInfo.data.data?.attachments ?? []).map((attachment: any) => ({
+      attachmentId: String(attachment.attachmentId),
+      fileName: attachment.attachmentName,
+      size: Number(attachment.attachmentSize) || 0,
+    }));
+    return { headers: header.data.data?.headerContent ?? '', content: content.data.data?.content ?? '', attachments };
+  });
+};
+const downloadZohoAttachment = async (mailbox: Mailbox, messageId: string, attachmentId: string): Promise<Buffer> => {
+  return tokenManager.withToken(mailbox.account, async (accessToken) => {
+    const response = await zohoHttp.get(mailboxPath(mailbox, `/messages/${encodeURIComponent(messageId)}/attachments/${encodeURIComponent(attachmentId)}`), { headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` }, responseType: 'arraybuffer' });
+    return Buffer.from(response.data);
+  });
+};
+const markZohoMessage = async (mailbox: Mailbox, messageId: string, read: boolean) => {
+  return tokenManager.withToken(mailbox.account, async (accessToken) => {
+    const response = await zohoHttp.put(mailboxPath(mailbox, '/updatemessage'), { mode: read ? 'markAsRead' : 'markAsUnread', messageId: [messageId] }, { headers: { 'Content-Type': 'application/json', 'Authorization': `Zoho-oauthtoken ${accessToken}` } });
+    return response.data;
+  });
+};
+// The raw MIME source, which DSN parsing needs; the content endpoint only has the body.
+const fetchZohoRawMessage = async (mailbox: Mailbox, messageId: string): Promise<string> => {
+  return tokenManager.withToken(mailbox.account, async (accessToken) => {
+    const response = await zohoHttp.get(mailboxPath(mailbox, `/messages/${encodeURIComponent(messageId)}/originalmessage`), { headers: { 'Authorization': `Zoho-oauthtoken ${accessToken}` } });
+    return typeof response.data === 'string' ? response.data : response.data.data?.content ?? '';
+  });
+};
+const listSubAccountMailboxes = async (account: EmailAccount): Promise<Mailbox[]> => {
+  const { response } = await subAccountCache.list(account);
+  return response.data.map(subAccount => ({ account, subAccountKey: subAccount.account_key, emailAddress: subAccount.emailAddress }));
+};
+const inbox = new UnifiedInbox(listZohoMessages, listSubAccountMailboxes);
+const bouncePoller = new BouncePoller(listSubAccountMailboxes, listZohoMessages, fetchZohoRawMessage);
+// mailOptions is the Zoho message payload, except that attachmentIds (staged uploads) are
+// replaced by the Zoho references of the files uploaded for this sender, and a
+// trackingToken adds the recipient's open tracking pixel to an HTML body. takeSlot is
+// called once the sender checks out, right before the message goes to Zoho.
+const sendEmailOnce = async (primaryAccountKey: string, fromAddress: string, mailOptions: any, takeSlot: () => Promise<void>) => {
+  const primaryAccounts = await storage.getEmailAccounts();
+  const selectedPrimaryAccount = primaryAccounts.find(acc => acc.account_key === primaryAccountKey);
+  if (!selectedPrimaryAccount) { throw new Error('Invalid primary account selected.'); }
+  if (!selectedPrimaryAccount.enabled) { throw new Error('Primary account is disabled.'); }
+  const subAccount = await subAccountCache.resolveSender(selectedPrimaryAccount, fromAddress);
+  if (!subAccount) { throw new Error('From address not found in Zoho sub-accounts.'); }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(fromAddress)) { throw new Error("Invalid fromAddress format."); }
+  await takeSlot();
+  const { attachmentIds, trackingToken, ...message } = mailOptions;
+  if (trackingToken && message.mailFormat !== 'plaintext') message.content = withOpenPixel(message.content, trackingToken);
+  const attachments = attachmentIds?.length ? await attachmentUploads.refsFor(selectedPrimaryAccount, subAccount.account_key, attachmentIds) : [];
+  return tokenManager.withToken(selectedPrimaryAccount, async (accessToken) => {
+    const payload = attachments.length > 0 ? { ...message, fromAddress, attachments } : { ...message, fromAddress };
+    const response = await zohoHttp.post(`${mail360Url(selectedPrimaryAccount.region)}/api/accounts/${subAccount.account_key}/messages`, payload, { headers: { 'Content-Type': 'application/json', 'Authorization': `Zoho-oauthtoken ${accessToken}` } });
+    return response.data;
+  });
+};
+// Sends one message, retrying transient failures with exponential backoff.
+// Every attempt is recorded so the result shows what happened along the way.
+// A message counts once against the rate limits, however many attempts it takes, and not
+// at all if it fails in the end.
+const sendEmail = async (primaryAccountKey: string, fromAddress: string, mailOptions: any): Promise<SendResult> => {
+  const attempts: SendAttempt[] = [];
+  let slot: number | null = null;
+  const takeSlot = async () => {
+    if (slot !== null) return;
+    slot = await rateLimiter.acquire(primaryAccountKey, fromAddress);
+  };
+  for (let attempt = 1; ; attempt++) {
     try {
-      const { access_token, expires_in } = await getNewAccessToken(account);
-      tokenCache[accountId] = { access_token: access_token, expires_at: currentTime + (expires_in * 1000) - 60000 };
-    } catch (error) {
-      console.error('Error getting access token:', error);
-      throw new Error('Failed to authenticate with Zoho.');
+      const data = await sendEmailOnce(primaryAccountKey, fromAddress, mailOptions, takeSlot);
+      attempts.push({ attempt, at: new Date().toISOString(), success: true, failureType: null, reason: null, responseCode: 200, error: null });
+      return { success: true, data, responseCode: 200, failureType: null, attempts };
+    } catch (error: any) {
+      const failure = classifyFailure(error);
+      const errorDetail = error.response ? error.response.data : error.message;
+      console.error(`Error sending email (attempt ${attempt}, ${failure.type} ${failure.reason}):`, errorDetail);
+      attempts.push({ attempt, at: new Date().toISOString(), success: false, failureType: failure.type, reason: failure.reason, responseCode: failure.responseCode, error: errorDetail });
+      if (failure.type === 'permanent' || attempt >= MAX_SEND_ATTEMPTS) {
+        if (slot !== null) rateLimiter.release(primaryAccountKey, fromAddress, slot);
+        return { success: false, error: errorDetail, responseCode: failure.responseCode, failureType: failure.type, attempts };
+      }
+      await new Promise(resolve => setTimeout(resolve, backoffDelay(attempt, failure.retryAfterMs)));
     }
   }
 };
-const getZohoSubAccounts = async (account: EmailAccount) => {
-  await getZohoAccessToken(account);
-  const accessToken = tokenCache[account.name].access_token;
-  const zohoResponse = await axios.get(`https://mail360.zoho.com/api/accounts`, { headers: { 'Content-Type': 'application/json', 'Authorization': `Zoho-oauthtoken ${accessToken}` } });
-  return zohoResponse.data;
+
+// Lets bulk sends skip senders that cannot send and spread recipients by remaining quota.
+const senderChecks: SenderChecks = {
+  isAvailable: async (sender, refresh) => {
+    const accounts = await storage.getEmailAccounts();
+    const account = accounts.find(acc => acc.account_key === sender.accountKey);
+    if (!account || !account.enabled) return false;
+    try {
+      const { response } = refresh ? await subAccountCache.refresh(account) : await subAccountCache.list(account);
+      const subAccount = response.data.find(sub => sub.emailAddress === sender.fromAddress);
+      return !!subAccount && subAccount.outgoingBlocked !== true;
+    } catch (error) {
+      // Zoho being unreachable says nothing about the sender; the send itself fails and retries.
+      return true;
+    }
+  },
+  remainingToday: async (sender) => {
+    const senderQuota = await rateLimiter.getQuota('sender', sender.fromAddress);
+    const accountQuota = await rateLimiter.getQuota('account', sender.accountKey);
+    const remaining = [senderQuota.day.remaining, accountQuota.day.remaining].filter((value): value is number => value !== null);
+    return remaining.length > 0 ? Math.min(...remaining) : null;
+  },
 };
-const sendEmail = async (primaryAccountKey: string, fromAddress: string, mailOptions: any) => {
+
+// Every sender of a bulk send must belong to a known account, and at least one of those
+// accounts must be enabled. Returns the problem, or null when the senders are fine.
+const checkSenders = async (data: BulkEmail): Promise<string | null> => {
+  const accounts = await storage.getEmailAccounts();
+  const senderAccounts = sendersFor(data).map(sender => accounts.find(acc => acc.account_key === sender.accountKey));
+  if (senderAccounts.some(account => !account)) return "Invalid account selected.";
+  if (!senderAccounts.some(account => account?.enabled)) return "The selected account is disabled.";
+  return null;
+};
+
+const openTrackingProblem = "Open tracking needs PUBLIC_APP_URL, the address recipients' mail clients reach this app at.";
+
+// Attachments are checked when a send is accepted, so a missing file fails the request
+// rather than every recipient. Returns the problem, or null when all files are staged.
+const checkAttachments = async (attachmentIds: string[] | undefined): Promise<string | null> => {
   try {
-    const primaryAccounts = await storage.getEmailAccounts();
-    const selectedPrimaryAccount = primaryAccounts.find(acc => acc.account_key === primaryAccountKey);
-    if (!selectedPrimaryAccount) { throw new Error('Invalid primary account selected.'); }
-    const subAccountsResponse = await getZohoSubAccounts(selectedPrimaryAccount);
-    const subAccount = subAccountsResponse.data.find((acc: any) => acc.emailAddress === fromAddress);
-    if (!subAccount) { throw new Error('From address not found in Zoho sub-accounts.'); }
-    await getZohoAccessToken(selectedPrimaryAccount);
-    const accessToken = tokenCache[selectedPrimaryAccount.name].access_token;
-    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(fromAddress)) { throw new Error("Invalid fromAddress format."); }
-    const response = await axios.post(`https://mail360.zoho.com/api/accounts/${subAccount.account_key}/messages`, { ...mailOptions, fromAddress }, { headers: { 'Content-Type': 'application/json', 'Authorization': `Zoho-oauthtoken ${accessToken}` } });
-    return { success: true, data: response.data };
+    await attachmentStore.resolve(attachmentIds ?? []);
+    return null;
   } catch (error: any) {
-    console.error('Error sending email:', error.response ? error.response.data : error.message);
-    return { success: false, error: error.response ? error.response.data : error.message };
+    return error.message;
   }
 };
 
-// The function no longer needs the 'db' parameter.
+// Send requests that fail validation (a missing time zone, an unreadable schedule) are the
+// caller's to fix; anything else that goes wrong while sending is ours.
+const sendErrorStatus = (error: unknown) => error instanceof z.ZodError ? 400 : 500;
+
+// Delivers one single-send form submission, honouring the suppression list.
+const deliverSingleEmail = async (data: SingleEmail): Promise<EmailResult> => {
+  const context = { source: 'single' as const, batchId: null, accountKey: data.primaryAccountKey, fromAddress: data.accountSelect, subject: data.subject };
+  // Suppressed To, CC and BCC addresses are dropped and listed on the result; the message
+  // is only suppressed when no To address is left.
+  const { kept, suppressed, toMatch } = await screenAddresses(new SuppressionLookup(), data.primaryAccountKey, messageAddresses(data.toAddress, data));
+  const suppressedRecipients = suppressed.length > 0 ? suppressed : undefined;
+  if (kept.to.length === 0) {
+    const result = { ...toSuppressedResult(data.toAddress, toMatch!), suppressedRecipients };
+    await recordSend(context, result);
+    return result;
+  }
+  if (suppressedRecipients) {
+    console.log(`Left suppressed address(es) out of a single send: ${suppressed.map(entry => entry.email).join(', ')}`);
+  }
+  const toAddress = kept.to.join(',');
+  const attachments = toAttachmentInfo(await attachmentStore.resolve(data.attachmentIds ?? []));
+  const mailOptions = { toAddress, subject: data.subject, ...messageBody(data), ...messageOptions(screenedOptions(data, kept)), attachmentIds: data.attachmentIds };
+  const result: EmailResult = { ...toEmailResult(toAddress, await sendEmail(data.primaryAccountKey, data.accountSelect, mailOptions)), attachments, suppressedRecipients };
+  await recordSend(context, result);
+  return result;
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  const campaignRunner = new CampaignRunner(sendEmail, senderChecks);
+  const scheduler = new Scheduler({
+    single: deliverSingleEmail,
+    bulk: (payload) => campaignRunner.create(payload),
+  });
   
   // === UPDATED ENDPOINT TO GET BOUNCES FROM bounces.json ===
   app.get("/api/bounces", async (req, res) => {
@@ -105,36 +314,252 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
   });
 
-  // All other routes remain the same as the last correct version.
+  // Scans the sender mailboxes for DSNs now instead of waiting for the next poll.
+  app.post("/api/bounces/poll", async (req, res) => {
+      try {
+          const result = await bouncePoller.poll();
+          res.json(result);
+      } catch (error: any) {
+          console.error("Error polling for bounces:", error);
+          res.status(500).json({ message: error.message || "Failed to poll for bounces" });
+      }
+  });
+
+  bouncePoller.start();
+
+  // === OPEN TRACKING: the pixel in tracked bulk and campaign emails ===
+  // Public and outside /api, since mail clients load it. Always answers with the GIF and
+  // never lets a cached copy stand in for a later open.
+  app.get("/t/o/:token", async (req, res) => {
+      try {
+          const ip = req.get('x-forwarded-for')?.split(',')[0].trim() || req.ip || null;
+          await recordOpen(req.params.token, { at: new Date().toISOString(), userAgent: req.get('user-agent') || null, ip });
+      } catch (error) {
+          console.error("Error recording open:", error);
+      }
+      res.set({ 'Content-Type': 'image/gif', 'Cache-Control': 'no-store, no-cache, must-revalidate, private', 'Pragma': 'no-cache' });
+      res.send(PIXEL_GIF);
+  });
+
+  // === WEBHOOKS: delivery, bounce, complaint and failure events from Mail360 ===
+  app.post("/api/webhooks/mail360", async (req, res) => {
+      const secret = webhookSecret();
+      if (!secret) {
+          return res.status(503).json({ message: "MAIL360_WEBHOOK_SECRET is not configured" });
+      }
+      if (!Buffer.isBuffer(req.rawBody) || !verifySignature(req.rawBody, req.get(SIGNATURE_HEADER), secret)) {
+          return res.status(401).json({ message: "Invalid signature" });
+      }
+      try {
+          const event = await receiveWebhook(req.body);
+          // Unmatched events are accepted: they are stored and can be replayed later.
+          res.status(event.status === "invalid" ? 400 : 200).json(event);
+      } catch (error: any) {
+          console.error("Error receiving webhook:", error);
+          res.status(500).json({ message: error.message || "Failed to receive webhook" });
+      }
+  });
+
+  app.get("/api/webhooks/events", async (req, res) => {
+      try {
+          const events = await storage.getWebhookEvents();
+          res.json(events.sort((a, b) => new Date(b.receivedAt).getTime() - new Date(a.receivedAt).getTime()));
+      } catch (error: any) {
+          res.status(500).json({ message: error.message || "Failed to load webhook events" });
+      }
+  });
+
+  app.post("/api/webhooks/events/:id/replay", async (req, res) => {
+      try {
+          const event = await replayWebhookEvent(req.params.id);
+          res.json(event);
+      } catch (error: any) {
+          res.status(400).json({ message: error.message || "Failed to replay webhook event" });
+      }
+  });
+
+  // === ACCOUNTS: add, list, edit, delete, enable/disable and test ===
   const newAccountSchema = z.object({
       name: z.string(),
       client_id: z.string(),
       client_secret: z.string(),
       refresh_token: z.string(),
+      fromAddress: z.string().email().optional(),
+      region: zohoRegionSchema.default("com"),
   });
 
+  // New accounts are verified against Zoho before they are saved. Without an explicit
+  // fromAddress, the first sub-account becomes the account's default sender.
+  const saveVerifiedAccount = async (accountData: z.infer<typeof newAccountSchema>): Promise<EmailAccount> => {
+    const newAccountPayload: EmailAccount = {
+      ...accountData,
+      fromAddress: accountData.fromAddress || "",
+      account_key: nanoid(),
+      enabled: true,
+    };
+    let subAccounts;
+    try {
+      subAccounts = await testAccountCredentials(newAccountPayload);
+    } catch (error: any) {
+      throw new Error(`Could not verify the account with Zoho: ${error.message}`);
+    }
+    if (!newAccountPayload.fromAddress) {
+      const firstSender = subAccounts.data?.[0]?.emailAddress;
+      if (!firstSender) { throw new Error("The account has no Zoho sub-accounts to send from."); }
+      newAccountPayload.fromAddress = firstSender;
+    }
+    return storage.addEmailAccount(newAccountPayload);
+  };
+
   app.post("/api/add-account", async (req, res) => {
     try {
         const accountData = newAccountSchema.parse(req.body);
-        const newAccountPayload: EmailAccount = {
-            ...accountData,
-            fromAddress: "placeholder@example.com",
-            account_key: nanoid()
-        };
-        const newAccount = await storage.addEmailAccount(newAccountPayload);
-        res.status(200).json(newAccount);
+        const newAccount = await saveVerifiedAccount(accountData);
+        res.status(200).json(toPublicAccount(newAccount));
     } catch (error: any) {
         console.error("Error adding account:", error);
-        res.status(500).json({ message: error.message || "Failed to add account" });
+        res.status(400).json({ message: error.message || "Failed to add account" });
+    }
+  });
+
+  // === OAUTH: connect an account through Zoho's consent screen instead of pasting a refresh token ===
+  const pendingConnections = new PendingConnections();
+  const connectAccountSchema = newAccountSchema.omit({ refresh_token: true });
+  const requestOrigin = (req: Request) => `${req.protocol}://${req.get('host')}`;
+
+  // What the user needs to register their Zoho client: the redirect URI and scopes we use.
+  app.get("/api/oauth/zoho/config", (req, res) => {
+    res.json({ redirectUri: oauthRedirectUri(requestOrigin(req)), scopes: zohoOAuthScopes() });
+  });
+
+  app.post("/api/oauth/zoho/start", async (req, res) => {
+    try {
+      const connection = connectAccountSchema.parse(req.body);
+      const redirectUri = oauthRedirectUri(requestOrigin(req));
+      const state = pendingConnections.add({ ...connection, redirectUri });
+      res.json({ authorizeUrl: buildAuthorizeUrl(connection.region, connection.client_id, redirectUri, state) });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to start Zoho authorization" });
+    }
+  });
+
+  // Zoho redirects the browser here, so the outcome goes back to the app as query parameters.
+  app.get("/api/oauth/zoho/callback", async (req, res) => {
+    const finish = (params: Record<string, string>) => res.redirect(`/?${new URLSearchParams(params).toString()}`);
+    try {
+      if (req.query.error) { return finish({ oauth_error: `Zoho authorization failed: ${req.query.error}` }); }
+      const connection = pendingConnections.take(String(req.query.state || ''));
+      if (!connection) { return finish({ oauth_error: "This authorization link has expired. Please connect again." }); }
+      const code = String(req.query.code || '');
+      if (!code) { return finish({ oauth_error: "Zoho did not return an authorization code." }); }
+      // Zoho sends back the accounts server the user signed in to, which may be another
+      // data centre than the one picked in the form. That region wins.
+      const region = regionForAccountsServer(req.query['accounts-server']) ?? connection.region;
+      const tokens = await exchangeAuthorizationCode(connection, code, region);
+      const account = await saveVerifiedAccount({
+        name: connection.name,
+        client_id: connection.client_id,
+        client_secret: connection.client_secret,
+        refresh_token: tokens.refresh_token,
+        fromAddress: connection.fromAddress,
+        region,
+      });
+      finish({ oauth_connected: account.name });
+    } catch (error: any) {
+      console.error("Error completing Zoho authorization:", error.response ? error.response.data : error.message);
+      finish({ oauth_error: error.message || "Failed to connect the Zoho account." });
     }
   });
 
   app.get("/api/accounts", async (req, res) => {
     try {
         const accounts = await storage.getEmailAccounts();
-        res.json(accounts);
-    } catch (error) {
-        res.status(500).json({ message: "Failed to load email accounts" });
+        // Secrets never leave the server.
+        res.json(accounts.map(toPublicAccount));
+    } catch (error: any) {
+        console.error("Error loading accounts:", error);
+        res.status(500).json({ message: error.message || "Failed to load email accounts" });
+    }
+  });
+
+  const findAccount = async (accountKey: string) => {
+    const accounts = await storage.getEmailAccounts();
+    const account = accounts.find(acc => acc.account_key === accountKey);
+    if (!account) throw new Error("Account not found.");
+    return account;
+  };
+
+  app.get("/api/accounts/token-status", async (req, res) => {
+    try {
+      const accounts = await storage.getEmailAccounts();
+      res.json(accounts.map(account => tokenManager.status(account.account_key)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to load token status" });
+    }
+  });
+
+  app.put("/api/accounts/:accountKey", async (req, res) => {
+    try {
+      const changes = updateAccountSchema.parse(req.body);
+      const account = await findAccount(req.params.accountKey);
+      const updated: EmailAccount = {
+        ...account,
+        name: changes.name ?? account.name,
+        fromAddress: changes.fromAddress ?? account.fromAddress,
+        client_id: changes.client_id ?? account.client_id,
+        client_secret: changes.client_secret || account.client_secret,
+        refresh_token: changes.refresh_token || account.refresh_token,
+        region: changes.region ?? account.region,
+      };
+      await storage.updateEmailAccount(updated);
+      // The cached token and sub-accounts belong to the old credentials.
+      tokenManager.invalidate(account.account_key);
+      subAccountCache.invalidate(account.account_key);
+      res.json(toPublicAccount(updated));
+    } catch (error: any) {
+      console.error("Error updating account:", error);
+      res.status(400).json({ message: error.message || "Failed to update account" });
+    }
+  });
+
+  app.delete("/api/accounts/:accountKey", async (req, res) => {
+    try {
+      const account = await findAccount(req.params.accountKey);
+      await storage.deleteEmailAccount(account.account_key);
+      await storage.deleteRateLimit('account', account.account_key);
+      tokenManager.invalidate(account.account_key);
+      subAccountCache.invalidate(account.account_key);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting account:", error);
+      res.status(400).json({ message: error.message || "Failed to delete account" });
+    }
+  });
+
+  for (const action of ["enable", "disable"] as const) {
+    app.post(`/api/accounts/:accountKey/${action}`, async (req, res) => {
+      try {
+        const account = await findAccount(req.params.accountKey);
+        const updated = await storage.updateEmailAccount({ ...account, enabled: action === "enable" });
+        res.json(toPublicAccount(updated));
+      } catch (error: any) {
+        res.status(400).json({ message: error.message || `Failed to ${action} account` });
+      }
+    });
+  }
+
+  app.post("/api/accounts/:accountKey/test", async (req, res) => {
+    try {
+      const account = await findAccount(req.params.accountKey);
+      try {
+        const zohoResponse = await testAccountCredentials(account);
+        res.json({ success: true, subAccounts: zohoResponse.data || [], message: "Credentials are valid." });
+      } catch (error: any) {
+        const cause = error.cause?.response?.data ?? error.cause?.message;
+        res.json({ success: false, subAccounts: [], message: error.message, error: cause ?? null });
+      }
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to test account" });
     }
   });
 
@@ -144,85 +569,555 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const accounts = await storage.getEmailAccounts();
         const selectedAccount = accounts.find(acc => acc.account_key === validatedData.primaryAccountKey);
         if (!selectedAccount) { return res.status(400).json({ message: "Invalid account selected." }); }
-        await getZohoAccessToken(selectedAccount);
-        const mailOptions = { toAddress: validatedData.toAddress, subject: validatedData.subject, content: validatedData.content, mailFormat: 'html' };
-        const result = await sendEmail(validatedData.primaryAccountKey, validatedData.accountSelect, mailOptions);
-        if (result.success) {
-            res.json({ success: true, messageId: result.data.data.messageId, responseCode: 200, fullResponse: result.data, message: "Email sent successfully!" });
+        if (!selectedAccount.enabled) { return res.status(400).json({ message: "The selected account is disabled." }); }
+        const attachmentProblem = await checkAttachments(validatedData.attachmentIds);
+        if (attachmentProblem) { return res.status(400).json({ message: attachmentProblem }); }
+        if (validatedData.scheduledAt) {
+            const job = await scheduler.schedule('single', validatedData);
+            return res.json({ success: true, scheduled: true, job, message: "Email scheduled." });
+        }
+        await tokenManager.getToken(selectedAccount);
+        const result = await deliverSingleEmail(validatedData);
+        if (result.status === 'Suppressed') {
+            res.status(422).json({ success: false, suppressed: true, message: result.error, responseCode: null, fullResponse: result.fullResponse, error: result.error });
+        } else if (result.status === 'Success') {
+            res.json({ success: true, messageId: result.messageId, responseCode: 200, fullResponse: result.fullResponse, attempts: result.attempts, suppressedRecipients: result.suppressedRecipients, message: "Email sent successfully!" });
         } else {
-            res.status(500).json({ success: false, message: "Failed to send email", responseCode: result.error?.status || 500, fullResponse: result.error, error: result.error });
+            res.status(500).json({ success: false, message: "Failed to send email", responseCode: result.responseCode, fullResponse: result.fullResponse, error: result.error, failureType: result.failureType, attempts: result.attempts });
         }
     } catch (error: any) {
         console.error("Error sending single email:", error);
-        res.status(500).json({ message: error.message || "Failed to send email" });
+        res.status(sendErrorStatus(error)).json({ message: error.message || "Failed to send email" });
     }
   });
 
   app.post("/api/send-bulk-email", async (req, res) => {
     try {
       const validatedData = bulkEmailSchema.parse(req.body);
-      const accounts = await storage.getEmailAccounts();
-      const selectedAccount = accounts.find(acc => acc.account_key === validatedData.primaryAccountKey);
-      if (!selectedAccount) { return res.status(400).json({ message: "Invalid account selected." }); }
-      await getZohoAccessToken(selectedAccount);
+      const senderProblem = await checkSenders(validatedData);
+      if (senderProblem) { return res.status(400).json({ message: senderProblem }); }
+      const attachmentProblem = await checkAttachments(validatedData.attachmentIds);
+      if (attachmentProblem) { return res.status(400).json({ message: attachmentProblem }); }
+      if (validatedData.trackOpens && !publicAppUrl()) { return res.status(400).json({ message: openTrackingProblem }); }
+      if (validatedData.scheduledAt) {
+        const job = await scheduler.schedule('bulk', validatedData);
+        return res.json({ success: true, scheduled: true, job });
+      }
       const recipientList = validatedData.recipients.split('\n').map(email => email.trim()).filter(email => email);
+      const rotation = new SenderRotation(sendersFor(validatedData), validatedData.rotation ?? 'round_robin', senderChecks);
+      const attachments = toAttachmentInfo(await attachmentStore.resolve(validatedData.attachmentIds ?? []));
+      const batchId = randomUUID();
+      const suppressions = new SuppressionLookup();
       const results: EmailResult[] = [];
       for (const toAddress of recipientList) {
-        const mailOptions = { toAddress: toAddress, subject: validatedData.subject, content: validatedData.content, mailFormat: 'html' };
-        const result = await sendEmail(validatedData.primaryAccountKey, validatedData.accountSelect, mailOptions);
-        results.push({
-          recipient: toAddress,
-          status: result.success ? 'Success' : 'Failed',
-          messageId: result.success ? result.data.data.messageId : null,
-          responseCode: result.success ? 200 : (result.error?.status || 500),
-          error: result.success ? null : result.error,
-          fullResponse: result.success ? result.data : result.error
-        });
-      }
-      await storage.storeEmailResults(results);
-      res.json({ success: true, results });
+        const fields = fieldsForRecipient(toAddress, validatedData.mergeData);
+        const subject = renderMergeTags(validatedData.subject, fields);
+        const trackingToken = await trackingTokenFor(validatedData.trackOpens, batchId, toAddress);
+        const message = { toAddress: toAddress, subject, ...messageBody(validatedData, mergeRenderer(fields)), attachmentIds: validatedData.attachmentIds, trackingToken };
+        while (true) {
+          const sender = await rotation.next();
+          if (!sender) {
+            results.push({ recipient: toAddress, status: 'Failed', messageId: null, responseCode: null, error: "No usable sender is left.", fullResponse: null });
+            break;
+          }
+          const context = { source: 'bulk' as const, batchId, accountKey: sender.accountKey, fromAddress: sender.fromAddress, subject };
+          const { kept, suppressed, toMatch } = await screenAddresses(suppressions, sender.accountKey, messageAddresses(toAddress, validatedData));
+          const suppressedRecipients = suppressed.length > 0 ? suppressed : undefined;
+          if (kept.to.length === 0) {
+            const result = { ...toSuppressedResult(toAddress, toMatch!), accountKey: sender.accountKey, fromAddress: sender.fromAddress, suppressedRecipients };
+            await recordSend(context, result);
+            results.push(result);
+            break;
+          }
+          const mailOptions = { ...message, ...messageOptions(screenedOptions(validatedData, kept)) };
+          const sendResult = await sendEmail(sender.accountKey, sender.fromAddress, mailOptions);
+          if (await rotation.shouldFailOver(sender, sendResult)) continue;
+          const result = { ...toEmailResult(toAddress, sendResult), accountKey: sender.accountKey, fromAddress: sender.fromAddress, attachments, trackingToken, suppressedRecipients };
+          await recordSend(context, result);
+          results.push(result);
+          break;
+        }
+      }
+      res.json({ success: true, batchId, results });
     } catch (error: any) {
       console.error("Error sending bulk email:", error);
-      res.status(500).json({ message: error.message || "Failed to send bulk email" });
+      res.status(sendErrorStatus(error)).json({ message: error.message || "Failed to send bulk email" });
     }
   });
   
-  app.get("/api/zoho-accounts", async (req, res) => {
+  // === ATTACHMENTS: files staged for sends, uploaded to Zoho when a message goes out ===
+  // The body is the raw file. It is sent as application/octet-stream so that express.json()
+  // leaves it alone; the real type comes in the contentType query parameter.
+  app.post("/api/attachments", express.raw({ type: 'application/octet-stream', limit: MAX_ATTACHMENT_BYTES }), async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body)) { return res.status(400).json({ message: "Send the file as application/octet-stream." }); }
+      const attachment = await attachmentStore.stage(String(req.query.fileName || ''), String(req.query.contentType || ''), req.body);
+      res.json(attachment);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to stage attachment" });
+    }
+  });
+
+  app.get("/api/attachments/:id", async (req, res) => {
+    try {
+      const attachment = await attachmentStore.get(req.params.id);
+      if (!attachment) { return res.status(404).json({ message: "Attachment not found." }); }
+      res.json(attachment);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to load attachment" });
+    }
+  });
+
+  // === CAMPAIGNS: server-side bulk send jobs ===
+
+  app.post("/api/campaigns", async (req, res) => {
+    try {
+      const validatedData = bulkEmailSchema.parse(req.body);
+      const senderProblem = await checkSenders(validatedData);
+      if (senderProblem) { return res.status(400).json({ message: senderProblem }); }
+      const attachmentProblem = await checkAttachments(validatedData.attachmentIds);
+      if (attachmentProblem) { return res.status(400).json({ message: attachmentProblem }); }
+      if (validatedData.trackOpens && !publicAppUrl()) { return res.status(400).json({ message: openTrackingProblem }); }
+      if (validatedData.scheduledAt) {
+        const job = await scheduler.schedule('bulk', validatedData);
+        return res.json({ scheduled: true, job });
+      }
+      const campaign = await campaignRunner.create(validatedData);
+      res.json(campaign);
+    } catch (error: any) {
+      console.error("Error creating campaign:", error);
+      res.status(sendErrorStatus(error)).json({ message: error.message || "Failed to create campaign" });
+    }
+  });
+
+  app.get("/api/campaigns", async (req, res) => {
+    try {
+      const campaigns = await campaignRunner.list();
+      // Newest first, like the bounce list.
+      res.json(campaigns.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to load campaigns" });
+    }
+  });
+
+  app.get("/api/campaigns/:id", async (req, res) => {
+    try {
+      const campaign = await campaignRunner.get(req.params.id);
+      if (!campaign) { return res.status(404).json({ message: "Campaign not found." }); }
+      res.json(await withCampaignOpens(campaign));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to load campaign" });
+    }
+  });
+
+  const campaignActions = {
+    pause: (id: string) => campaignRunner.pause(id),
+    resume: (id: string) => campaignRunner.resume(id),
+    cancel: (id: string) => campaignRunner.cancel(id),
+  };
+
+  for (const [action, run] of Object.entries(campaignActions)) {
+    app.post(`/api/campaigns/:id/${action}`, async (req, res) => {
+      try {
+        const campaign = await run(req.params.id);
+        res.json(campaign);
+      } catch (error: any) {
+        console.error(`Error trying to ${action} campaign:`, error);
+        res.status(400).json({ message: error.message || `Failed to ${action} campaign` });
+      }
+    });
+  }
+
+  // Pick up campaigns that were still running when the server went down.
+  await campaignRunner.recover();
+
+  // === SCHEDULES: single and bulk sends waiting for their time ===
+  app.get("/api/schedules", async (req, res) => {
+    try {
+      const jobs = await scheduler.list(req.query.all === 'true');
+      res.json(jobs);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to load scheduled jobs" });
+    }
+  });
+
+  app.post("/api/schedules/:id/cancel", async (req, res) => {
+    try {
+      const job = await scheduler.cancel(req.params.id);
+      res.json(job);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to cancel scheduled job" });
+    }
+  });
+
+  app.post("/api/schedules/:id/reschedule", async (req, res) => {
+    try {
+      const { scheduledAt, timeZone } = rescheduleSchema.parse(req.body);
+      const job = await scheduler.reschedule(req.params.id, scheduledAt, timeZone);
+      res.json(job);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to reschedule job" });
+    }
+  });
+
+  // Arm saved schedules and send the ones that came due while the server was down.
+  await scheduler.recover();
+
+  // === SUPPRESSION LIST: addresses we must not mail again ===
+  app.get("/api/suppressions", async (req, res) => {
+    try {
+      const suppressions = await storage.getSuppressions();
+      res.json(suppressions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to load suppressions" });
+    }
+  });
+
+  app.post("/api/suppressions", async (req, res) => {
+    try {
+      const entry = insertSuppressionSchema.parse(req.body);
+      const added = await storage.addSuppressions([entry]);
+      res.json({ success: true, added });
+    } catch (error: any) {
+      console.error("Error adding suppression:", error);
+      res.status(400).json({ message: error.message || "Failed to add suppression" });
+    }
+  });
+
+  // Imports a pasted list (one address per line, or separated by commas/semicolons).
+  const suppressionImportSchema = z.object({
+    emails: z.string().min(1, "Emails are required"),
+    reason: suppressionReasonSchema.default("imported"),
+    accountKey: z.string().nullable().default(null),
+  });
+
+  app.post("/api/suppressions/import", async (req, res) => {
+    try {
+      const { emails, reason, accountKey } = suppressionImportSchema.parse(req.body);
+      const emailList = emails.split(/[\n,;]/).map(email => email.trim()).filter(email => email);
+      const valid = emailList.filter(email => z.string().email().safeParse(email).success);
+      const added = await storage.addSuppressions(valid.map(email => ({ email, reason, accountKey })));
+      res.json({ success: true, added: added.length, skipped: emailList.length - added.length });
+    } catch (error: any) {
+      console.error("Error importing suppressions:", error);
+      res.status(400).json({ message: error.message || "Failed to import suppressions" });
+    }
+  });
+
+  app.delete("/api/suppressions/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteSuppression(req.params.id);
+      if (!deleted) { return res.status(404).json({ message: "Suppression not found." }); }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to delete suppression" });
+    }
+  });
+
+  // Lets the bulk page flag suppressed recipients before a campaign starts. A send that
+  // rotates over several primary accounts passes all of them; a recipient suppressed for
+  // any of them is flagged, since the campaign may well pick that account for it.
+  const suppressionCheckSchema = z.object({
+    accountKeys: z.array(z.string()).min(1),
+    emails: z.array(z.string()),
+  });
+
+  app.post("/api/suppressions/check", async (req, res) => {
+    try {
+      const { accountKeys, emails } = suppressionCheckSchema.parse(req.body);
+      const suppressions = new SuppressionLookup();
+      const matches = new Map<string, SuppressionMatch>();
+      for (const accountKey of Array.from(new Set(accountKeys))) {
+        for (const [recipient, match] of Array.from(await suppressions.find(emails, accountKey))) {
+          if (!matches.has(recipient)) matches.set(recipient, match);
+        }
+      }
+      res.json(Array.from(matches.entries()).map(([recipient, match]) => ({ recipient, ...match })));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to check suppressions" });
+    }
+  });
+
+  // === TEMPLATES: saved subject/content pairs with version history ===
+  app.get("/api/templates", async (req, res) => {
+    try {
+      const templates = await storage.getTemplates();
+      res.json(templates.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to load templates" });
+    }
+  });
+
+  app.get("/api/templates/:id", async (req, res) => {
+    try {
+      const template = await storage.getTemplate(req.params.id);
+      if (!template) { return res.status(404).json({ message: "Template not found." }); }
+      res.json(template);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to load template" });
+    }
+  });
+
+  app.post("/api/templates", async (req, res) => {
+    try {
+      const { name, subject, content } = insertTemplateSchema.parse(req.body);
+      const now = new Date().toISOString();
+      const template: EmailTemplate = {
+        id: nanoid(),
+        name,
+        versions: [{ version: 1, subject, content, createdAt: now }],
+        createdAt: now,
+        updatedAt: now,
+      };
+      res.json(await storage.saveTemplate(template));
+    } catch (error: any) {
+      console.error("Error creating template:", error);
+      res.status(400).json({ message: error.message || "Failed to create template" });
+    }
+  });
+
+  // Renames and/or saves a new version. Saving identical subject and content adds no version.
+  app.put("/api/templates/:id", async (req, res) => {
+    try {
+      const update = updateTemplateSchema.parse(req.body);
+      const template = await storage.getTemplate(req.params.id);
+      if (!template) { return res.status(404).json({ message: "Template not found." }); }
+      const current = template.versions[template.versions.length - 1];
+      const subject = update.subject ?? current.subject;
+      const content = update.content ?? current.content;
+      const now = new Date().toISOString();
+      if (subject !== current.subject || content !== current.content) {
+        template.versions.push({ version: current.version + 1, subject, content, createdAt: now });
+      }
+      template.name = update.name ?? template.name;
+      template.updatedAt = now;
+      res.json(await storage.saveTemplate(template));
+    } catch (error: any) {
+      console.error("Error updating template:", error);
+      res.status(400).json({ message: error.message || "Failed to update template" });
+    }
+  });
+
+  // Restoring copies an old version on top, so the history itself is never rewritten.
+  app.post("/api/templates/:id/restore/:version", async (req, res) => {
+    try {
+      const template = await storage.getTemplate(req.params.id);
+      if (!template) { return res.status(404).json({ message: "Template not found." }); }
+      const target = template.versions.find(version => version.version === Number(req.params.version));
+      if (!target) { return res.status(404).json({ message: "Version not found." }); }
+      const current = template.versions[template.versions.length - 1];
+      const now = new Date().toISOString();
+      template.versions.push({ version: current.version + 1, subject: target.subject, content: target.content, createdAt: now });
+      template.updatedAt = now;
+      res.json(await storage.saveTemplate(template));
+    } catch (error: any) {
+      console.error("Error restoring template version:", error);
+      res.status(500).json({ message: error.message || "Failed to restore template version" });
+    }
+  });
+
+  app.delete("/api/templates/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteTemplate(req.params.id);
+      if (!deleted) { return res.status(404).json({ message: "Template not found." }); }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to delete template" });
+    }
+  });
+
+  // === RATE LIMITS: per primary account and per sender ===
+  app.get("/api/rate-limits", async (req, res) => {
+    try {
+      const limits = await storage.getRateLimits();
+      res.json(limits);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to load rate limits" });
+    }
+  });
+
+  app.put("/api/rate-limits", async (req, res) => {
+    try {
+      const limitData = rateLimitSchema.parse(req.body);
+      const limit = await storage.saveRateLimit(limitData);
+      res.json(limit);
+    } catch (error: any) {
+      console.error("Error saving rate limit:", error);
+      res.status(400).json({ message: error.message || "Failed to save rate limit" });
+    }
+  });
+
+  app.delete("/api/rate-limits/:scope/:key", async (req, res) => {
+    try {
+      const scope = rateLimitSchema.shape.scope.parse(req.params.scope);
+      const deleted = await storage.deleteRateLimit(scope, req.params.key);
+      if (!deleted) { return res.status(404).json({ message: "Rate limit not found." }); }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to delete rate limit" });
+    }
+  });
+
+  app.get("/api/rate-limits/quota", async (req, res) => {
     try {
       const accountKey = req.query.accountKey as string;
+      const fromAddress = req.query.fromAddress as string;
+      if (!accountKey || !fromAddress) { return res.status(400).json({ message: "accountKey and fromAddress are required." }); }
+      res.json({
+        account: await rateLimiter.getQuota('account', accountKey),
+        sender: await rateLimiter.getQuota('sender', fromAddress),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to load quota" });
+    }
+  });
+
+  // Sub-accounts come from the cache; POST /api/zoho-accounts/refresh fetches them from Zoho again.
+  const sendSubAccounts = async (res: Response, accountKey: string | undefined, refresh: boolean) => {
+    try {
       if (!accountKey) { return res.status(400).json({ message: "accountKey is required." }); }
       const accounts = await storage.getEmailAccounts();
       const selectedAccount = accounts.find(acc => acc.account_key === accountKey);
       if (!selectedAccount) { return res.status(400).json({ message: "Invalid account selected." }); }
-      const zohoResponse = await getZohoSubAccounts(selectedAccount);
-      res.json(zohoResponse);
+      const { response, fetchedAt } = refresh ? await subAccountCache.refresh(selectedAccount) : await subAccountCache.list(selectedAccount);
+      res.json({ ...response, fetchedAt: new Date(fetchedAt).toISOString() });
     } catch (error: any) {
       console.error("Error fetching Zoho sub-accounts:", error.response ? error.response.data : error.message);
       res.status(500).json({ message: error.message || "Failed to fetch accounts from Zoho." });
     }
+  };
+
+  app.get("/api/zoho-accounts", (req, res) => sendSubAccounts(res, req.query.accountKey as string | undefined, false));
+
+  app.post("/api/zoho-accounts/refresh", (req, res) => sendSubAccounts(res, req.body?.accountKey, true));
+
+  // Creating, updating and deleting sub-accounts answer with the refreshed list, like the refresh above.
+  const zohoErrorMessage = (error: any, fallback: string) =>
+    error.response?.data?.status?.description || error.response?.data?.data?.moreInfo || error.message || fallback;
+
+  app.post("/api/zoho-accounts", async (req, res) => {
+    try {
+      const { accountKey, ...subAccount } = createSubAccountSchema.parse(req.body);
+      const account = await findAccount(accountKey);
+      await createZohoSubAccount(account, subAccount);
+      console.log(`Created Zoho sub-account ${subAccount.emailAddress} under ${account.name}`);
+      await sendSubAccounts(res, accountKey, true);
+    } catch (error: any) {
+      console.error("Error creating Zoho sub-account:", error.response ? error.response.data : error.message);
+      res.status(400).json({ message: zohoErrorMessage(error, "Failed to create sub-account") });
+    }
+  });
+
+  app.patch("/api/zoho-accounts/:subAccountKey", async (req, res) => {
+    try {
+      const { accountKey, ...changes } = updateSubAccountSchema.parse(req.body);
+      const account = await findAccount(accountKey);
+      await updateZohoSubAccount(account, req.params.subAccountKey, changes);
+      await sendSubAccounts(res, accountKey, true);
+    } catch (error: any) {
+      console.error("Error updating Zoho sub-account:", error.response ? error.response.data : error.message);
+      res.status(400).json({ message: zohoErrorMessage(error, "Failed to update sub-account") });
+    }
+  });
+
+  app.delete("/api/zoho-accounts/:subAccountKey", async (req, res) => {
+    try {
+      const account = await findAccount(String(req.query.accountKey || ''));
+      await deleteZohoSubAccount(account, req.params.subAccountKey);
+      console.log(`Deleted Zoho sub-account ${req.params.subAccountKey} under ${account.name}`);
+      await sendSubAccounts(res, account.account_key, true);
+    } catch (error: any) {
+      console.error("Error deleting Zoho sub-account:", error.response ? error.response.data : error.message);
+      res.status(400).json({ message: zohoErrorMessage(error, "Failed to delete sub-account") });
+    }
   });
   
+  // === INBOX: messages received by the sub-accounts, across all enabled primary accounts ===
+  app.get("/api/inbox", async (req, res) => {
+    try {
+      const query = inboxQuerySchema.parse(req.query);
+      const accounts = (await storage.getEmailAccounts()).filter(account => account.enabled && (!query.accountKey || account.account_key === query.accountKey));
+      res.json(await inbox.page(accounts, query));
+    } catch (error: any) {
+      console.error("Error loading inbox:", error.message);
+      res.status(400).json({ message: error.message || "Failed to load inbox" });
+    }
+  });
+
+  // The mailbox of a message route: the primary account and the sub-account's Zoho account_key.
+  const findMailbox = async (req: Request): Promise<Mailbox> => {
+    const account = await findAccount(req.params.accountKey);
+    const { response } = await subAccountCache.list(account);
+    const subAccount = response.data.find(sub => sub.account_key === req.params.subAccountKey);
+    if (!subAccount) throw new Error("Mailbox not found.");
+    return { account, subAccountKey: subAccount.account_key, emailAddress: subAccount.emailAddress };
+  };
+
+  app.get("/api/inbox/:accountKey/:subAccountKey/messages/:messageId", async (req, res) => {
+    try {
+      const mailbox = await findMailbox(req);
+      res.json(await getZohoMessage(mailbox, req.params.messageId));
+    } catch (error: any) {
+      console.error("Error loading message:", error.response ? error.response.data : error.message);
+      res.status(400).json({ message: zohoErrorMessage(error, "Failed to load message") });
+    }
+  });
+
+  app.get("/api/inbox/:accountKey/:subAccountKey/messages/:messageId/attachments/:attachmentId", async (req, res) => {
+    try {
+      const mailbox = await findMailbox(req);
+      const data = await downloadZohoAttachment(mailbox, req.params.messageId, req.params.attachmentId);
+      const fileName = String(req.query.fileName || 'attachment').replace(/["\\\r\n]/g, '');
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(data);
+    } catch (error: any) {
+      console.error("Error downloading attachment:", error.message);
+      res.status(400).json({ message: zohoErrorMessage(error, "Failed to download attachment") });
+    }
+  });
+
+  app.post("/api/inbox/:accountKey/:subAccountKey/messages/:messageId/read", async (req, res) => {
+    try {
+      const { read } = z.object({ read: z.boolean() }).parse(req.body);
+      const mailbox = await findMailbox(req);
+      await markZohoMessage(mailbox, req.params.messageId, read);
+      res.json({ success: true, read });
+    } catch (error: any) {
+      console.error("Error updating message:", error.response ? error.response.data : error.message);
+      res.status(400).json({ message: zohoErrorMessage(error, "Failed to update message") });
+    }
+  });
+
+  // Results of the most recent bulk send or campaign, for the dashboard and navigation stats.
   app.get("/api/bulk-results", async (req, res) => {
     try {
-      const results = await storage.getEmailResults();
-      res.json(results);
+      const results = await storage.getLatestSendBatch();
+      res.json(await withOpens(results));
     } catch (error) {
       res.status(500).json({ message: "Failed to load email results" });
     }
   });
 
-  app.post("/api/store-bulk-results", async (req, res) => {
+  // === SEND LOG: durable history of every send ===
+
+  app.get("/api/send-log", async (req, res) => {
     try {
-      const { results } = req.body;
-      if (Array.isArray(results)) {
-        await storage.storeEmailResults(results);
-        res.json({ success: true });
-      } else {
-        res.status(400).json({ error: 'Results must be an array' });
-      }
-    } catch (error) {
-      console.error('Error storing bulk results:', error);
-      res.status(500).json({ error: 'Failed to store results' });
+      const query = sendLogQuerySchema.parse(req.query);
+      const page = await storage.querySendLog(query);
+      res.json(page);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to load send log" });
+    }
+  });
+
+  app.get("/api/send-log/:id", async (req, res) => {
+    try {
+      const entry = await storage.getSendLogEntry(req.params.id);
+      if (!entry) { return res.status(404).json({ message: "Send log entry not found." }); }
+      res.json(entry);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to load send log entry" });
     }
   });
 
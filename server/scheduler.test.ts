@@ -0,0 +1,97 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { type Server } from "http";
+import os from "os";
+import path from "path";
+import { randomBytes } from "crypto";
+import { type AddressInfo } from "net";
+import express from "express";
+import { bulkEmailSchema, singleEmailSchema } from "@shared/schema";
+
+// Scheduled sends are validated before anything is stored: the send routes answer a
+// schedule without a time zone, or one that cannot be read, with a 400.
+
+const message = { primaryAccountKey: "ACCOUNT1", accountSelect: "sender@example.com", toAddress: "customer@example.com", subject: "Hello", content: "<p>Hello</p>" };
+const nextYear = `${new Date().getFullYear() + 1}-03-01T09:00`;
+
+describe("schedule validation", () => {
+  test("accepts a future time with its time zone", () => {
+    assert.equal(singleEmailSchema.safeParse({ ...message, scheduledAt: nextYear, timeZone: "Europe/Paris" }).success, true);
+  });
+
+  test("accepts a send without a schedule", () => {
+    assert.equal(singleEmailSchema.safeParse(message).success, true);
+    assert.equal(singleEmailSchema.safeParse({ ...message, scheduledAt: "" }).success, true);
+  });
+
+  test("requires a time zone with a scheduled time", () => {
+    const result = singleEmailSchema.safeParse({ ...message, scheduledAt: nextYear });
+    assert.equal(result.success, false);
+    assert.deepEqual(result.error?.issues.map(issue => issue.path), [["timeZone"]]);
+  });
+
+  test("refuses times that cannot be read or already passed", () => {
+    const unreadable = singleEmailSchema.safeParse({ ...message, scheduledAt: "next tuesday", timeZone: "Europe/Paris" });
+    assert.equal(unreadable.error?.issues[0].message, "Invalid scheduled date and time");
+    const past = singleEmailSchema.safeParse({ ...message, scheduledAt: "2020-01-01T09:00", timeZone: "Europe/Paris" });
+    assert.equal(past.error?.issues[0].message, "Scheduled time is in the past");
+  });
+
+  test("checks bulk sends the same way", () => {
+    const result = bulkEmailSchema.safeParse({ ...message, recipients: "customer@example.com", scheduledAt: nextYear });
+    assert.equal(result.success, false);
+  });
+});
+
+describe("scheduled send routes", () => {
+  let app: Server;
+  let dataDir: string;
+
+  before(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "scheduler-test-"));
+    // Storage picks its data folder on import, so the environment is set up first.
+    process.env.DATA_DIR = dataDir;
+    process.env.STORAGE_BACKEND = "memory";
+    process.env.ACCOUNTS_MASTER_KEY = randomBytes(32).toString("base64");
+    process.env.BOUNCE_POLL_INTERVAL_SECONDS = "0";
+
+    const { registerRoutes } = await import("./routes");
+    const expressApp = express();
+    expressApp.use(express.json());
+    app = await registerRoutes(expressApp);
+    await new Promise<void>(resolve => app.listen(0, "127.0.0.1", resolve));
+  });
+
+  after(async () => {
+    await new Promise(resolve => app.close(resolve));
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const post = async (route: string, body: object) => {
+    const res = await fetch(`http://127.0.0.1:${(app.address() as AddressInfo).port}${route}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  for (const [route, body] of [
+    ["/api/send-single-email", message],
+    ["/api/send-bulk-email", { ...message, recipients: "customer@example.com" }],
+    ["/api/campaigns", { ...message, recipients: "customer@example.com" }],
+  ] as const) {
+    test(`${route} answers a schedule without a time zone with a 400`, async () => {
+      const res = await post(route, { ...body, scheduledAt: nextYear });
+      assert.equal(res.status, 400);
+      assert.match(res.body.message, /time zone is required/);
+    });
+
+    test(`${route} answers an unreadable schedule with a 400`, async () => {
+      const res = await post(route, { ...body, scheduledAt: "soon", timeZone: "Europe/Paris" });
+      assert.equal(res.status, 400);
+      assert.match(res.body.message, /Invalid scheduled date and time/);
+    });
+  }
+});
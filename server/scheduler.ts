@@ -0,0 +1,152 @@
+import { storage } from "./storage";
+import { type BulkEmail, type Campaign, type EmailResult, type ScheduledJob, type SingleEmail } from "@shared/schema";
+import { zonedTimeToUtc } from "@shared/schedule";
+import { randomUUID } from "crypto";
+
+export type ScheduleDispatchers = {
+  single: (payload: SingleEmail) => Promise<EmailResult>;
+  bulk: (payload: BulkEmail) => Promise<Campaign>;
+};
+
+// setTimeout cannot wait longer than this; later jobs are re-armed when it fires.
+const MAX_TIMER_MS = 2147483647;
+
+// Resolves a wall-clock schedule to a UTC instant and rejects times that already passed.
+export function resolveRunAt(scheduledAt: string, timeZone: string): Date {
+  const runAt = zonedTimeToUtc(scheduledAt, timeZone);
+  if (Number.isNaN(runAt.getTime())) throw new Error("Invalid scheduled date.");
+  if (runAt.getTime() < Date.now()) throw new Error("Scheduled time is in the past.");
+  return runAt;
+}
+
+// Holds scheduled single and bulk sends and dispatches them when due. Jobs live in storage;
+// on startup recover() dispatches anything that came due while the server was down.
+export class Scheduler {
+  private timers: Map<string, NodeJS.Timeout>;
+
+  constructor(private dispatchers: ScheduleDispatchers) {
+    this.timers = new Map();
+  }
+
+  async schedule(type: ScheduledJob['type'], payload: SingleEmail | BulkEmail): Promise<ScheduledJob> {
+    const { scheduledAt, timeZone, ...sendPayload } = payload;
+    if (!scheduledAt || !timeZone) throw new Error("scheduledAt and timeZone are required.");
+    const job: ScheduledJob = {
+      id: randomUUID(),
+      type,
+      payload: sendPayload,
+      scheduledAt,
+      timeZone,
+      runAt: resolveRunAt(scheduledAt, timeZone).toISOString(),
+      status: "scheduled",
+      campaignId: null,
+      result: null,
+      error: null,
+      createdAt: new Date().toISOString(),
+      dispatchedAt: null,
+    };
+    await storage.saveScheduledJob(job);
+    this.arm(job);
+    return job;
+  }
+
+  async list(includeFinished = false): Promise<ScheduledJob[]> {
+    const jobs = await storage.getScheduledJobs();
+    return jobs
+      .filter(job => includeFinished || job.status === "scheduled" || job.status === "dispatching")
+      .sort((a, b) => new Date(a.runAt).getTime() - new Date(b.runAt).getTime());
+  }
+
+  async cancel(id: string): Promise<ScheduledJob> {
+    const job = await this.requireScheduled(id);
+    job.status = "cancelled";
+    this.disarm(id);
+    return storage.saveScheduledJob(job);
+  }
+
+  async reschedule(id: string, scheduledAt: string, timeZone: string): Promise<ScheduledJob> {
+    const job = await this.requireScheduled(id);
+    job.runAt = resolveRunAt(scheduledAt, timeZone).toISOString();
+    job.scheduledAt = scheduledAt;
+    job.timeZone = timeZone;
+    await storage.saveScheduledJob(job);
+    this.arm(job);
+    return job;
+  }
+
+  // Called once at startup. Jobs whose time passed while we were down are sent right away.
+  // A job still "dispatching" was interrupted mid-send and may have gone out, so it is
+  // marked failed for the user to check rather than sent again.
+  async recover(): Promise<void> {
+    const jobs = await storage.getScheduledJobs();
+    for (const job of jobs.filter(j => j.status === "dispatching")) {
+      console.log(`Scheduled job ${job.id} was interrupted while dispatching, marking it failed`);
+      job.status = "failed";
+      job.error = "The server stopped while this job was being sent. Check the send history and campaigns before sending it again.";
+      job.dispatchedAt = new Date().toISOString();
+      await storage.saveScheduledJob(job);
+    }
+    for (const job of jobs.filter(j => j.status === "scheduled")) {
+      if (new Date(job.runAt).getTime() <= Date.now()) {
+        console.log(`Dispatching missed scheduled job ${job.id} (was due ${job.runAt})`);
+      }
+      this.arm(job);
+    }
+  }
+
+  private async requireScheduled(id: string): Promise<ScheduledJob> {
+    const job = (await storage.getScheduledJobs()).find(j => j.id === id);
+    if (!job) throw new Error("Scheduled job not found.");
+    if (job.status === "dispatching") throw new Error("Job is being sent and can no longer be changed.");
+    if (job.status !== "scheduled") throw new Error(`Job is already ${job.status}.`);
+    return job;
+  }
+
+  private disarm(id: string) {
+    const timer = this.timers.get(id);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(id);
+  }
+
+  private arm(job: ScheduledJob) {
+    this.disarm(job.id);
+    const delay = Math.max(0, new Date(job.runAt).getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(job.id);
+      if (delay > MAX_TIMER_MS) {
+        this.arm(job);
+        return;
+      }
+      this.dispatch(job.id).catch(error => console.error(`Scheduled job ${job.id} failed:`, error));
+    }, Math.min(delay, MAX_TIMER_MS));
+    this.timers.set(job.id, timer);
+  }
+
+  private async dispatch(id: string) {
+    // Re-read the job: it may have been cancelled or moved since the timer was set.
+    const job = (await storage.getScheduledJobs()).find(j => j.id === id);
+    if (!job || job.status !== "scheduled") return;
+    if (new Date(job.runAt).getTime() > Date.now()) {
+      this.arm(job);
+      return;
+    }
+
+    job.status = "dispatching";
+    await storage.saveScheduledJob(job);
+    try {
+      if (job.type === "single") {
+        job.result = await this.dispatchers.single(job.payload as SingleEmail);
+      } else {
+        const campaign = await this.dispatchers.bulk(job.payload as BulkEmail);
+        job.campaignId = campaign.id;
+      }
+      job.status = "dispatched";
+    } catch (error: any) {
+      job.status = "failed";
+      job.error = error.message || String(error);
+    }
+    job.dispatchedAt = new Date().toISOString();
+    await storage.saveScheduledJob(job);
+    console.log(`Scheduled ${job.type} job ${job.id} ${job.status}`);
+  }
+}
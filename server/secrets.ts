@@ -0,0 +1,76 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { type EmailAccount, type PublicEmailAccount } from "@shared/schema";
+
+// Account credentials are stored as "enc:v1:<keyId>:<iv>:<tag>:<ciphertext>" using AES-256-GCM.
+// ACCOUNTS_MASTER_KEY encrypts everything written from now on. Keys listed in
+// ACCOUNTS_PREVIOUS_MASTER_KEYS (comma separated) can still decrypt, which is what lets
+// `npm run accounts:rotate-key` re-encrypt existing accounts under a new key.
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+type MasterKey = { id: string; key: Buffer };
+
+// Keys are 32 random bytes, given as 64 hex characters or as base64.
+function parseMasterKey(value: string): MasterKey {
+  const trimmed = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, "hex") : Buffer.from(trimmed, "base64");
+  if (key.length !== 32) {
+    throw new Error("Master keys must be 32 bytes, given as 64 hex characters or base64.");
+  }
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 8), key };
+}
+
+function currentMasterKey(): MasterKey {
+  const value = process.env.ACCOUNTS_MASTER_KEY;
+  if (!value) {
+    throw new Error("ACCOUNTS_MASTER_KEY is not set, so account credentials cannot be encrypted.");
+  }
+  return parseMasterKey(value);
+}
+
+function decryptionKeys(): MasterKey[] {
+  const values = [process.env.ACCOUNTS_MASTER_KEY, ...(process.env.ACCOUNTS_PREVIOUS_MASTER_KEYS || "").split(",")];
+  return values.filter((value): value is string => !!value && !!value.trim()).map(parseMasterKey);
+}
+
+export function generateMasterKey(): string {
+  return randomBytes(32).toString("base64");
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const { id, key } = currentMasterKey();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return `${ENCRYPTED_PREFIX}${id}:${iv.toString("base64")}:${cipher.getAuthTag().toString("base64")}:${ciphertext.toString("base64")}`;
+}
+
+// Values written before encryption was introduced are plain text and returned unchanged;
+// they are encrypted the next time the account is saved or the key is rotated.
+export function decryptSecret(value: string): string {
+  if (!isEncrypted(value)) return value;
+  const [keyId, iv, tag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(":");
+  const masterKey = decryptionKeys().find(candidate => candidate.id === keyId);
+  if (!masterKey) {
+    throw new Error(`Account credentials were encrypted with key ${keyId}, which is not configured.`);
+  }
+  const decipher = createDecipheriv("aes-256-gcm", masterKey.key, Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
+
+export function encryptAccountSecrets(account: EmailAccount): EmailAccount {
+  return { ...account, client_secret: encryptSecret(account.client_secret), refresh_token: encryptSecret(account.refresh_token) };
+}
+
+export function decryptAccountSecrets(account: EmailAccount): EmailAccount {
+  return { ...account, client_secret: decryptSecret(account.client_secret), refresh_token: decryptSecret(account.refresh_token) };
+}
+
+// What the browser gets to see of an account.
+export function toPublicAccount({ client_secret, refresh_token, ...account }: EmailAccount): PublicEmailAccount {
+  return account;
+}
@@ -0,0 +1,22 @@
+import { storage } from "./storage";
+import { type EmailResult, type SendLogEntry, type SendSource } from "@shared/schema";
+
+export type SendContext = {
+  source: SendSource;
+  batchId: string | null;
+  accountKey: string;
+  fromAddress: string;
+  subject: string;
+};
+
+// Writes a finished send to the send log. The message has already gone out (or been
+// refused) at this point, so a storage error is logged rather than failing the send.
+export async function recordSend(context: SendContext, result: EmailResult): Promise<SendLogEntry | null> {
+  try {
+    const [entry] = await storage.appendSendLog([{ ...result, ...context }]);
+    return entry;
+  } catch (error) {
+    console.error(`Error recording send to ${result.recipient}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { type Sender } from "@shared/schema";
+import { type SendResult } from "./delivery";
+import { SenderRotation, sendersFor, type SenderChecks } from "./sender-rotation";
+
+const sender = (fromAddress: string, weight = 1): Sender => ({ accountKey: "ACCOUNT1", fromAddress, weight });
+
+// Checks backed by a set of unusable senders and a table of remaining daily quota.
+const checks = (unavailable = new Set<string>(), remaining: Record<string, number | null> = {}): SenderChecks => ({
+  isAvailable: async candidate => !unavailable.has(candidate.fromAddress),
+  remainingToday: async candidate => remaining[candidate.fromAddress] ?? null,
+});
+
+const failure = (error: string): SendResult => ({ success: false, error, responseCode: 500, failureType: "permanent", attempts: [] });
+
+// The senders picked for the next count recipients.
+const picks = async (rotation: SenderRotation, count: number) => {
+  const picked: string[] = [];
+  for (let i = 0; i < count; i++) picked.push((await rotation.next())!.fromAddress);
+  return picked;
+};
+
+describe("SenderRotation", () => {
+  test("round robin takes the senders in turn", async () => {
+    const rotation = new SenderRotation([sender("a@example.com"), sender("b@example.com"), sender("c@example.com")], "round_robin", checks());
+    assert.deepEqual(await picks(rotation, 4), ["a@example.com", "b@example.com", "c@example.com", "a@example.com"]);
+  });
+
+  test("weighted spreads each cycle by weight without bunching", async () => {
+    const rotation = new SenderRotation([sender("a@example.com", 3), sender("b@example.com", 1), sender("c@example.com", 1)], "weighted", checks());
+    const cycle = await picks(rotation, 5);
+    assert.deepEqual(cycle, ["a@example.com", "b@example.com", "a@example.com", "c@example.com", "a@example.com"]);
+    assert.deepEqual(await picks(rotation, 5), cycle);
+  });
+
+  test("quota picks the sender with the most sends left, unlimited first", async () => {
+    const rotation = new SenderRotation([sender("a@example.com"), sender("b@example.com")], "quota", checks(new Set(), { "a@example.com": 5, "b@example.com": 50 }));
+    assert.equal((await rotation.next())?.fromAddress, "b@example.com");
+    const unlimited = new SenderRotation([sender("a@example.com"), sender("b@example.com")], "quota", checks(new Set(), { "a@example.com": 5 }));
+    assert.equal((await unlimited.next())?.fromAddress, "b@example.com");
+  });
+
+  test("skips unusable senders and runs out when none is left", async () => {
+    const rotation = new SenderRotation([sender("a@example.com"), sender("b@example.com")], "round_robin", checks(new Set(["a@example.com"])));
+    assert.deepEqual(await picks(rotation, 2), ["b@example.com", "b@example.com"]);
+    const none = new SenderRotation([sender("a@example.com")], "round_robin", checks(new Set(["a@example.com"])));
+    assert.equal(await none.next(), undefined);
+  });
+
+  test("fails over when a send shows the sender stopped working", async () => {
+    const unavailable = new Set<string>();
+    const rotation = new SenderRotation([sender("a@example.com"), sender("b@example.com")], "round_robin", checks(unavailable));
+    const first = (await rotation.next())!;
+    unavailable.add(first.fromAddress);
+    assert.equal(await rotation.shouldFailOver(first, failure("Outgoing is blocked for this account")), true);
+    assert.deepEqual(await picks(rotation, 2), ["b@example.com", "b@example.com"]);
+  });
+
+  test("keeps the sender for recipient problems and for senders that still check out", async () => {
+    const rotation = new SenderRotation([sender("a@example.com")], "round_robin", checks());
+    const first = (await rotation.next())!;
+    assert.equal(await rotation.shouldFailOver(first, failure("Invalid to address")), false);
+    assert.equal(await rotation.shouldFailOver(first, failure("Primary account is disabled.")), false);
+    assert.equal((await rotation.next())?.fromAddress, "a@example.com");
+  });
+});
+
+describe("sendersFor", () => {
+  test("falls back to the selected sender without a rotation list", () => {
+    assert.deepEqual(sendersFor({ primaryAccountKey: "ACCOUNT1", accountSelect: "a@example.com" }), [sender("a@example.com")]);
+    const senders = [sender("b@example.com", 2)];
+    assert.equal(sendersFor({ primaryAccountKey: "ACCOUNT1", accountSelect: "a@example.com", senders }), senders);
+  });
+});
@@ -0,0 +1,100 @@
+import { type RotationStrategy, type Sender } from "@shared/schema";
+import { type SendResult } from "./delivery";
+
+// What the rotation needs to know about a sender from the rest of the server.
+export type SenderChecks = {
+  // False when the sender cannot send at all: its primary account is missing or disabled,
+  // or Zoho lists the sub-account as outgoingBlocked (or no longer lists it).
+  // With refresh, the sub-account list is fetched from Zoho again first.
+  isAvailable: (sender: Sender, refresh: boolean) => Promise<boolean>;
+  // Sends left today under the sender's rate limits, or null when it has no daily limit.
+  remainingToday: (sender: Sender) => Promise<number | null>;
+};
+
+// Failures that may mean the sender itself stopped working, as opposed to the recipient.
+const SENDER_FAILURE = /outgoing|blocked|not found in Zoho sub-accounts|disabled/i;
+
+const senderId = (sender: Sender) => `${sender.accountKey}:${sender.fromAddress}`;
+
+// The senders of a bulk send. Without an explicit list, the single selected sender is used.
+export function sendersFor(data: { primaryAccountKey: string; accountSelect: string; senders?: Sender[] }): Sender[] {
+  if (data.senders && data.senders.length > 0) return data.senders;
+  return [{ accountKey: data.primaryAccountKey, fromAddress: data.accountSelect, weight: 1 }];
+}
+
+// Picks the sender for each recipient of one bulk send. Senders that turn out to be
+// unusable are dropped for the rest of the run and the remaining ones take over.
+export class SenderRotation {
+  private blocked: Set<string>;
+  private cursor: number;
+  // Running totals for smooth weighted round robin.
+  private credits: Map<string, number>;
+
+  constructor(private senders: Sender[], private strategy: RotationStrategy, private checks: SenderChecks) {
+    this.blocked = new Set();
+    this.cursor = 0;
+    this.credits = new Map();
+  }
+
+  // The next sender to use, or undefined when none is usable any more.
+  async next(): Promise<Sender | undefined> {
+    const available: Sender[] = [];
+    for (const sender of this.inTurnOrder()) {
+      if (this.blocked.has(senderId(sender))) continue;
+      if (await this.checks.isAvailable(sender, false)) available.push(sender);
+      else this.block(sender);
+    }
+    if (available.length === 0) return undefined;
+    const sender = await this.pick(available);
+    this.cursor = (this.senders.indexOf(sender) + 1) % this.senders.length;
+    return sender;
+  }
+
+  // Decides whether a failed send was the sender's fault. If so the sender is dropped and
+  // the caller should try the recipient again with the next one.
+  async shouldFailOver(sender: Sender, result: SendResult): Promise<boolean> {
+    if (result.success) return false;
+    const error = typeof result.error === 'string' ? result.error : JSON.stringify(result.error ?? '');
+    if (!SENDER_FAILURE.test(error)) return false;
+    if (await this.checks.isAvailable(sender, true)) return false;
+    console.log(`Sender ${sender.fromAddress} can no longer send, failing over to the next sender`);
+    this.block(sender);
+    return true;
+  }
+
+  private block(sender: Sender) {
+    this.blocked.add(senderId(sender));
+  }
+
+  // Senders starting after the one used last, so ties go to whoever has waited longest.
+  private inTurnOrder(): Sender[] {
+    return [...this.senders.slice(this.cursor), ...this.senders.slice(0, this.cursor)];
+  }
+
+  private async pick(available: Sender[]): Promise<Sender> {
+    if (this.strategy === "weighted") {
+      const total = available.reduce((sum, sender) => sum + sender.weight, 0);
+      let best = available[0];
+      for (const sender of available) {
+        const credit = (this.credits.get(senderId(sender)) ?? 0) + sender.weight;
+        this.credits.set(senderId(sender), credit);
+        if (credit > this.credits.get(senderId(best))!) best = sender;
+      }
+      this.credits.set(senderId(best), this.credits.get(senderId(best))! - total);
+      return best;
+    }
+    if (this.strategy === "quota") {
+      let best = available[0];
+      let bestRemaining = (await this.checks.remainingToday(best)) ?? Infinity;
+      for (const sender of available.slice(1)) {
+        const remaining = (await this.checks.remainingToday(sender)) ?? Infinity;
+        if (remaining > bestRemaining) {
+          best = sender;
+          bestRemaining = remaining;
+        }
+      }
+      return best;
+    }
+    return available[0];
+  }
+}
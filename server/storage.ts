@@ -1,8 +1,11 @@
-import { type User, type InsertUser, type EmailAccount, type EmailResult } from "@shared/schema";
+import { type User, type InsertUser, type EmailAccount, type Campaign, type SendLogEntry, type InsertSendLogEntry, type SendLogQuery, type SendLogPage, type RateLimit, type Suppression, type InsertSuppression, type EmailTemplate, type ScheduledJob, type WebhookEvent, type OpenTracking } from "@shared/schema";
 import { randomUUID } from "crypto";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { createDb } from "./db";
+import { DbStorage } from "./db-storage";
+import { decryptAccountSecrets, encryptAccountSecrets } from "./secrets";
 
 // Define the structure for a single bounce record
 export type BounceRecord = {
@@ -11,13 +14,32 @@ export type BounceRecord = {
     bounceType: string;
     accountKey: string;
     createdAt: string;
+    // Set for bounces read from a DSN: the mailbox and Zoho message it was found in, and
+    // the RFC 3464 status code and diagnostic it reported.
+    mailbox?: string;
+    messageId?: string;
+    statusCode?: string;
+    diagnostic?: string;
 };
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
-const accountsPath = path.join(__dirname, '..', 'accounts.json');
+// The JSON data files live in the project folder unless DATA_DIR points elsewhere (the
+// tests use a temporary folder so they never touch real data).
+export const dataDir = process.env.DATA_DIR ? path.resolve(process.env.DATA_DIR) : path.join(__dirname, '..');
+const accountsPath = path.join(dataDir, 'accounts.json');
 // Define the path for our new bounces.json file
-const bouncesPath = path.join(__dirname, '..', 'bounces.json');
+const bouncesPath = path.join(dataDir, 'bounces.json');
+// Campaign jobs are persisted so a restart can pick them up again
+const campaignsPath = path.join(dataDir, 'campaigns.json');
+const rateLimitsPath = path.join(dataDir, 'rate-limits.json');
+const suppressionsPath = path.join(dataDir, 'suppressions.json');
+const templatesPath = path.join(dataDir, 'templates.json');
+const schedulesPath = path.join(dataDir, 'schedules.json');
+// The send log only ever grows, so it is kept as JSON Lines and appended to.
+const sendLogPath = path.join(dataDir, 'send-log.jsonl');
+const webhookEventsPath = path.join(dataDir, 'webhook-events.json');
+const openTrackingPath = path.join(dataDir, 'open-tracking.json');
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -25,20 +47,45 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   getEmailAccounts(): Promise<EmailAccount[]>;
   addEmailAccount(account: EmailAccount): Promise<EmailAccount>;
-  storeEmailResults(results: EmailResult[]): Promise<void>;
-  getEmailResults(sessionId?: string): Promise<EmailResult[]>;
+  updateEmailAccount(account: EmailAccount): Promise<EmailAccount>;
+  deleteEmailAccount(accountKey: string): Promise<boolean>;
+  appendSendLog(entries: InsertSendLogEntry[]): Promise<SendLogEntry[]>;
+  querySendLog(query: SendLogQuery): Promise<SendLogPage>;
+  getSendLogEntry(id: string): Promise<SendLogEntry | undefined>;
+  getLatestSendBatch(): Promise<SendLogEntry[]>;
+  findSendLogByMessageId(messageId: string): Promise<SendLogEntry | undefined>;
+  updateSendLogEntry(entry: SendLogEntry): Promise<SendLogEntry>;
   // NEW: Functions to handle reading and writing bounces
   storeBounce(bounce: Omit<BounceRecord, 'id' | 'createdAt'>): Promise<BounceRecord>;
+  // Stores all the bounces of one DSN in a single write, so none are kept without the rest.
+  storeBounces(bounces: Omit<BounceRecord, 'id' | 'createdAt'>[]): Promise<BounceRecord[]>;
   getBounces(): Promise<BounceRecord[]>;
+  getCampaigns(): Promise<Campaign[]>;
+  getCampaign(id: string): Promise<Campaign | undefined>;
+  saveCampaign(campaign: Campaign): Promise<Campaign>;
+  getRateLimits(): Promise<RateLimit[]>;
+  saveRateLimit(limit: RateLimit): Promise<RateLimit>;
+  deleteRateLimit(scope: RateLimit['scope'], key: string): Promise<boolean>;
+  getSuppressions(): Promise<Suppression[]>;
+  addSuppressions(entries: InsertSuppression[]): Promise<Suppression[]>;
+  deleteSuppression(id: string): Promise<boolean>;
+  getTemplates(): Promise<EmailTemplate[]>;
+  getTemplate(id: string): Promise<EmailTemplate | undefined>;
+  saveTemplate(template: EmailTemplate): Promise<EmailTemplate>;
+  deleteTemplate(id: string): Promise<boolean>;
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  saveScheduledJob(job: ScheduledJob): Promise<ScheduledJob>;
+  getWebhookEvents(): Promise<WebhookEvent[]>;
+  saveWebhookEvent(event: WebhookEvent): Promise<WebhookEvent>;
+  getOpenTrackings(tokens: string[]): Promise<OpenTracking[]>;
+  saveOpenTracking(record: OpenTracking): Promise<OpenTracking>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
-  private emailResults: Map<string, EmailResult[]>;
 
   constructor() {
     this.users = new Map();
-    this.emailResults = new Map();
     // Ensure the bounces.json file exists when the app starts
     if (!fs.existsSync(bouncesPath)) {
         fs.writeFileSync(bouncesPath, JSON.stringify([]));
@@ -58,15 +105,297 @@ export class MemStorage implements IStorage {
 
   // --- NEW: Function to add a single bounce to bounces.json ---
   async storeBounce(bounce: Omit<BounceRecord, 'id' | 'createdAt'>): Promise<BounceRecord> {
+      const [newBounce] = await this.storeBounces([bounce]);
+      return newBounce;
+  }
+
+  async storeBounces(bounces: Omit<BounceRecord, 'id' | 'createdAt'>[]): Promise<BounceRecord[]> {
+      if (bounces.length === 0) return [];
       const allBounces = await this.getBounces();
-      const newBounce: BounceRecord = {
-          ...bounce,
-          id: randomUUID(),
-          createdAt: new Date().toISOString(),
-      };
-      allBounces.push(newBounce);
+      const createdAt = new Date().toISOString();
+      const newBounces: BounceRecord[] = bounces.map(bounce => ({ ...bounce, id: randomUUID(), createdAt }));
+      allBounces.push(...newBounces);
       fs.writeFileSync(bouncesPath, JSON.stringify(allBounces, null, 2));
-      return newBounce;
+      return newBounces;
+  }
+
+  // --- Campaign jobs, stored in campaigns.json ---
+  async getCampaigns(): Promise<Campaign[]> {
+      try {
+          if (!fs.existsSync(campaignsPath)) return [];
+          const campaignsData = fs.readFileSync(campaignsPath, 'utf8');
+          return JSON.parse(campaignsData);
+      } catch (error) {
+          console.error('Error loading campaigns:', error);
+          return [];
+      }
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+      const allCampaigns = await this.getCampaigns();
+      return allCampaigns.find(campaign => campaign.id === id);
+  }
+
+  async saveCampaign(campaign: Campaign): Promise<Campaign> {
+      const allCampaigns = await this.getCampaigns();
+      const index = allCampaigns.findIndex(existing => existing.id === campaign.id);
+      if (index === -1) {
+          allCampaigns.push(campaign);
+      } else {
+          allCampaigns[index] = campaign;
+      }
+      fs.writeFileSync(campaignsPath, JSON.stringify(allCampaigns, null, 2));
+      return campaign;
+  }
+
+  // --- Send rate limits, stored in rate-limits.json ---
+  async getRateLimits(): Promise<RateLimit[]> {
+      try {
+          if (!fs.existsSync(rateLimitsPath)) return [];
+          const limitsData = fs.readFileSync(rateLimitsPath, 'utf8');
+          return JSON.parse(limitsData);
+      } catch (error) {
+          console.error('Error loading rate limits:', error);
+          return [];
+      }
+  }
+
+  async saveRateLimit(limit: RateLimit): Promise<RateLimit> {
+      const allLimits = await this.getRateLimits();
+      const index = allLimits.findIndex(existing => existing.scope === limit.scope && existing.key === limit.key);
+      if (index === -1) {
+          allLimits.push(limit);
+      } else {
+          allLimits[index] = limit;
+      }
+      fs.writeFileSync(rateLimitsPath, JSON.stringify(allLimits, null, 2));
+      return limit;
+  }
+
+  async deleteRateLimit(scope: RateLimit['scope'], key: string): Promise<boolean> {
+      const allLimits = await this.getRateLimits();
+      const remaining = allLimits.filter(limit => !(limit.scope === scope && limit.key === key));
+      if (remaining.length === allLimits.length) return false;
+      fs.writeFileSync(rateLimitsPath, JSON.stringify(remaining, null, 2));
+      return true;
+  }
+
+  // --- Suppression list, stored in suppressions.json ---
+  async getSuppressions(): Promise<Suppression[]> {
+      try {
+          if (!fs.existsSync(suppressionsPath)) return [];
+          const suppressionsData = fs.readFileSync(suppressionsPath, 'utf8');
+          return JSON.parse(suppressionsData);
+      } catch (error) {
+          console.error('Error loading suppressions:', error);
+          return [];
+      }
+  }
+
+  // Adds entries that are not already on the list for the same scope; returns only the new ones.
+  async addSuppressions(entries: InsertSuppression[]): Promise<Suppression[]> {
+      const allSuppressions = await this.getSuppressions();
+      const existing = new Set(allSuppressions.map(entry => `${entry.accountKey ?? '*'}:${entry.email.toLowerCase()}`));
+      const added: Suppression[] = [];
+      for (const entry of entries) {
+          const id = `${entry.accountKey ?? '*'}:${entry.email.toLowerCase()}`;
+          if (existing.has(id)) continue;
+          existing.add(id);
+          added.push({ ...entry, email: entry.email.toLowerCase(), id: randomUUID(), createdAt: new Date().toISOString() });
+      }
+      if (added.length > 0) {
+          fs.writeFileSync(suppressionsPath, JSON.stringify([...allSuppressions, ...added], null, 2));
+      }
+      return added;
+  }
+
+  async deleteSuppression(id: string): Promise<boolean> {
+      const allSuppressions = await this.getSuppressions();
+      const remaining = allSuppressions.filter(entry => entry.id !== id);
+      if (remaining.length === allSuppressions.length) return false;
+      fs.writeFileSync(suppressionsPath, JSON.stringify(remaining, null, 2));
+      return true;
+  }
+
+  // --- Saved email templates, stored in templates.json ---
+  async getTemplates(): Promise<EmailTemplate[]> {
+      try {
+          if (!fs.existsSync(templatesPath)) return [];
+          const templatesData = fs.readFileSync(templatesPath, 'utf8');
+          return JSON.parse(templatesData);
+      } catch (error) {
+          console.error('Error loading templates:', error);
+          return [];
+      }
+  }
+
+  async getTemplate(id: string): Promise<EmailTemplate | undefined> {
+      const allTemplates = await this.getTemplates();
+      return allTemplates.find(template => template.id === id);
+  }
+
+  async saveTemplate(template: EmailTemplate): Promise<EmailTemplate> {
+      const allTemplates = await this.getTemplates();
+      const index = allTemplates.findIndex(existing => existing.id === template.id);
+      if (index === -1) {
+          allTemplates.push(template);
+      } else {
+          allTemplates[index] = template;
+      }
+      fs.writeFileSync(templatesPath, JSON.stringify(allTemplates, null, 2));
+      return template;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+      const allTemplates = await this.getTemplates();
+      const remaining = allTemplates.filter(template => template.id !== id);
+      if (remaining.length === allTemplates.length) return false;
+      fs.writeFileSync(templatesPath, JSON.stringify(remaining, null, 2));
+      return true;
+  }
+
+  // --- Scheduled sends, stored in schedules.json ---
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+      try {
+          if (!fs.existsSync(schedulesPath)) return [];
+          const schedulesData = fs.readFileSync(schedulesPath, 'utf8');
+          return JSON.parse(schedulesData);
+      } catch (error) {
+          console.error('Error loading scheduled jobs:', error);
+          return [];
+      }
+  }
+
+  async saveScheduledJob(job: ScheduledJob): Promise<ScheduledJob> {
+      const allJobs = await this.getScheduledJobs();
+      const index = allJobs.findIndex(existing => existing.id === job.id);
+      if (index === -1) {
+          allJobs.push(job);
+      } else {
+          allJobs[index] = job;
+      }
+      fs.writeFileSync(schedulesPath, JSON.stringify(allJobs, null, 2));
+      return job;
+  }
+
+  // --- Send history, stored in send-log.jsonl (oldest first) ---
+  async getSendLog(): Promise<SendLogEntry[]> {
+      try {
+          if (!fs.existsSync(sendLogPath)) return [];
+          const logData = fs.readFileSync(sendLogPath, 'utf8');
+          return logData.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+      } catch (error) {
+          console.error('Error loading send log:', error);
+          return [];
+      }
+  }
+
+  async appendSendLog(entries: InsertSendLogEntry[]): Promise<SendLogEntry[]> {
+      const sentAt = new Date().toISOString();
+      const added: SendLogEntry[] = entries.map(entry => ({ ...entry, id: randomUUID(), sentAt }));
+      if (added.length > 0) {
+          fs.appendFileSync(sendLogPath, added.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+      }
+      return added;
+  }
+
+  // Newest first. Recipient matches on a case-insensitive substring, the other filters exactly.
+  async querySendLog(query: SendLogQuery): Promise<SendLogPage> {
+      const recipient = query.recipient?.trim().toLowerCase();
+      const since = query.since ? new Date(query.since).getTime() : null;
+      const until = query.until ? new Date(query.until).getTime() : null;
+      const matching = (await this.getSendLog()).filter(entry => {
+          const sentAt = new Date(entry.sentAt).getTime();
+          return (!query.status || entry.status === query.status)
+              && (!query.source || entry.source === query.source)
+              && (!query.accountKey || entry.accountKey === query.accountKey)
+              && (!query.fromAddress || entry.fromAddress.toLowerCase() === query.fromAddress.toLowerCase())
+              && (!query.batchId || entry.batchId === query.batchId)
+              && (!recipient || entry.recipient.toLowerCase().includes(recipient))
+              && (since === null || sentAt >= since)
+              && (until === null || sentAt <= until);
+      }).reverse();
+      const start = (query.page - 1) * query.pageSize;
+      return { entries: matching.slice(start, start + query.pageSize), total: matching.length, page: query.page, pageSize: query.pageSize };
+  }
+
+  async getSendLogEntry(id: string): Promise<SendLogEntry | undefined> {
+      const allEntries = await this.getSendLog();
+      return allEntries.find(entry => entry.id === id);
+  }
+
+  // Every entry of the most recent bulk send or campaign, in send order.
+  async getLatestSendBatch(): Promise<SendLogEntry[]> {
+      const allEntries = await this.getSendLog();
+      const latest = allEntries.findLast(entry => entry.batchId !== null);
+      return latest ? allEntries.filter(entry => entry.batchId === latest.batchId) : [];
+  }
+
+  async findSendLogByMessageId(messageId: string): Promise<SendLogEntry | undefined> {
+      const allEntries = await this.getSendLog();
+      return allEntries.findLast(entry => entry.messageId === messageId);
+  }
+
+  // Delivery updates are rare next to appends, so the whole file is rewritten for them.
+  async updateSendLogEntry(entry: SendLogEntry): Promise<SendLogEntry> {
+      const allEntries = await this.getSendLog();
+      const index = allEntries.findIndex(existing => existing.id === entry.id);
+      if (index === -1) throw new Error("Send log entry not found.");
+      allEntries[index] = entry;
+      fs.writeFileSync(sendLogPath, allEntries.map(existing => JSON.stringify(existing)).join('\n') + '\n');
+      return entry;
+  }
+
+  // --- Received webhook bodies, stored in webhook-events.json ---
+  async getWebhookEvents(): Promise<WebhookEvent[]> {
+      try {
+          if (!fs.existsSync(webhookEventsPath)) return [];
+          const eventsData = fs.readFileSync(webhookEventsPath, 'utf8');
+          return JSON.parse(eventsData);
+      } catch (error) {
+          console.error('Error loading webhook events:', error);
+          return [];
+      }
+  }
+
+  async saveWebhookEvent(event: WebhookEvent): Promise<WebhookEvent> {
+      const allEvents = await this.getWebhookEvents();
+      const index = allEvents.findIndex(existing => existing.id === event.id);
+      if (index === -1) {
+          allEvents.push(event);
+      } else {
+          allEvents[index] = event;
+      }
+      fs.writeFileSync(webhookEventsPath, JSON.stringify(allEvents, null, 2));
+      return event;
+  }
+
+  // --- Open tracking tokens, stored in open-tracking.json ---
+  async getAllOpenTrackings(): Promise<OpenTracking[]> {
+      try {
+          if (!fs.existsSync(openTrackingPath)) return [];
+          return JSON.parse(fs.readFileSync(openTrackingPath, 'utf8'));
+      } catch (error) {
+          console.error('Error loading open tracking:', error);
+          return [];
+      }
+  }
+
+  async getOpenTrackings(tokens: string[]): Promise<OpenTracking[]> {
+      const wanted = new Set(tokens);
+      return (await this.getAllOpenTrackings()).filter(record => wanted.has(record.token));
+  }
+
+  async saveOpenTracking(record: OpenTracking): Promise<OpenTracking> {
+      const allRecords = await this.getAllOpenTrackings();
+      const index = allRecords.findIndex(existing => existing.token === record.token);
+      if (index === -1) {
+          allRecords.push(record);
+      } else {
+          allRecords[index] = record;
+      }
+      fs.writeFileSync(openTrackingPath, JSON.stringify(allRecords, null, 2));
+      return record;
   }
 
   // --- The rest of the functions remain the same ---
@@ -87,21 +416,28 @@ export class MemStorage implements IStorage {
     return user;
   }
 
-  async getEmailAccounts(): Promise<EmailAccount[]> {
+  // accounts.json holds client_secret and refresh_token encrypted (see secrets.ts);
+  // callers only ever see decrypted accounts.
+  private readAccountsFile(): EmailAccount[] {
     try {
       const accountsData = fs.readFileSync(accountsPath, 'utf8');
-      const accounts = JSON.parse(accountsData);
-      return accounts;
+      return JSON.parse(accountsData);
     } catch (error) {
       console.error('Error loading accounts:', error);
       return [];
     }
   }
 
+  async getEmailAccounts(): Promise<EmailAccount[]> {
+    // Accounts saved before enable/disable and regions existed count as enabled and on zoho.com.
+    return this.readAccountsFile().map(account => decryptAccountSecrets({ ...account, enabled: account.enabled ?? true, region: account.region ?? "com" }));
+  }
+
   async addEmailAccount(account: EmailAccount): Promise<EmailAccount> {
+    const encrypted = encryptAccountSecrets(account);
     try {
-      const currentAccounts = await this.getEmailAccounts();
-      currentAccounts.push(account);
+      const currentAccounts = this.readAccountsFile();
+      currentAccounts.push(encrypted);
       fs.writeFileSync(accountsPath, JSON.stringify(currentAccounts, null, 2));
       return account;
     } catch (error) {
@@ -110,18 +446,37 @@ export class MemStorage implements IStorage {
     }
   }
 
-  async storeEmailResults(results: EmailResult[]): Promise<void> {
-    const sessionId = randomUUID();
-    this.emailResults.set(sessionId, results);
+  async updateEmailAccount(account: EmailAccount): Promise<EmailAccount> {
+    const currentAccounts = this.readAccountsFile();
+    const index = currentAccounts.findIndex(existing => existing.account_key === account.account_key);
+    if (index === -1) throw new Error("Account not found.");
+    currentAccounts[index] = encryptAccountSecrets(account);
+    fs.writeFileSync(accountsPath, JSON.stringify(currentAccounts, null, 2));
+    return account;
   }
 
-  async getEmailResults(sessionId?: string): Promise<EmailResult[]> {
-    if (sessionId) {
-      return this.emailResults.get(sessionId) || [];
-    }
-    const entries = Array.from(this.emailResults.entries());
-    return entries.length > 0 ? entries[entries.length - 1][1] : [];
+  async deleteEmailAccount(accountKey: string): Promise<boolean> {
+    const currentAccounts = this.readAccountsFile();
+    const remaining = currentAccounts.filter(account => account.account_key !== accountKey);
+    if (remaining.length === currentAccounts.length) return false;
+    fs.writeFileSync(accountsPath, JSON.stringify(remaining, null, 2));
+    return true;
+  }
+}
+
+export type StorageBackend = "memory" | "postgres";
+
+// STORAGE_BACKEND=postgres keeps everything in the database (needs DATABASE_URL);
+// the default keeps JSON files in the project folder, which is handy for local use.
+export function createStorage(backend = process.env.STORAGE_BACKEND || "memory"): IStorage {
+  switch (backend) {
+    case "memory":
+      return new MemStorage();
+    case "postgres":
+      return new DbStorage(createDb());
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}". Use "memory" or "postgres".`);
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+export const storage = createStorage();
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { type EmailAccount } from "@shared/schema";
+
+// How long a primary account's sub-account list is used before Zoho is asked again.
+// SUB_ACCOUNT_CACHE_TTL_SECONDS overrides the default of 15 minutes.
+const DEFAULT_TTL_MS = 15 * 60 * 1000;
+
+export type ZohoSubAccount = { account_key: string; emailAddress: string; [field: string]: unknown };
+
+// The body of Zoho's GET /api/accounts, passed through as it was received.
+export type ZohoSubAccountsResponse = { status?: unknown; data: ZohoSubAccount[] };
+
+export type FetchSubAccountsFn = (account: EmailAccount) => Promise<ZohoSubAccountsResponse>;
+
+type CachedList = { response: ZohoSubAccountsResponse; fetchedAt: number };
+
+const ttlMs = () => {
+  const seconds = Number(process.env.SUB_ACCOUNT_CACHE_TTL_SECONDS);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_TTL_MS;
+};
+
+// Sub-account lists per primary account (keyed by account_key), so a send can find its
+// sender's Zoho account_key without listing every sub-account first. Concurrent misses
+// for the same account share one request to Zoho.
+export class SubAccountCache {
+  private lists: Map<string, CachedList>;
+  private fetching: Map<string, Promise<CachedList>>;
+
+  constructor(private fetchSubAccounts: FetchSubAccountsFn) {
+    this.lists = new Map();
+    this.fetching = new Map();
+  }
+
+  async list(account: EmailAccount): Promise<CachedList> {
+    const cached = this.lists.get(account.account_key);
+    if (cached && Date.now() - cached.fetchedAt < ttlMs()) return cached;
+    return this.refresh(account);
+  }
+
+  refresh(account: EmailAccount): Promise<CachedList> {
+    const pending = this.fetching.get(account.account_key);
+    if (pending) return pending;
+    const request = this.fetchSubAccounts(account)
+      .then(response => this.store(account.account_key, response))
+      .finally(() => this.fetching.delete(account.account_key));
+    this.fetching.set(account.account_key, request);
+    return request;
+  }
+
+  // Finds the sub-account sending as fromAddress. A miss on a cached list refreshes it once,
+  // since the sender may have been added in Zoho after the list was fetched.
+  async resolveSender(account: EmailAccount, fromAddress: string): Promise<ZohoSubAccount | undefined> {
+    const cached = this.lists.get(account.account_key);
+    const { response, fetchedAt } = await this.list(account);
+    const sender = response.data.find(subAccount => subAccount.emailAddress === fromAddress);
+    if (sender || !cached || cached.fetchedAt !== fetchedAt) return sender;
+    const refreshed = await this.refresh(account);
+    return refreshed.response.data.find(subAccount => subAccount.emailAddress === fromAddress);
+  }
+
+  store(accountKey: string, response: ZohoSubAccountsResponse): CachedList {
+    const entry = { response, fetchedAt: Date.now() };
+    this.lists.set(accountKey, entry);
+    return entry;
+  }
+
+  invalidate(accountKey: string) {
+    this.lists.delete(accountKey);
+  }
+}
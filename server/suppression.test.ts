@@ -0,0 +1,77 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Screens messages against a suppression list and bounce store kept in a temporary folder.
+
+describe("suppression screening", () => {
+  let dataDir: string;
+  let suppression: typeof import("./suppression");
+  let messageOptions: typeof import("./delivery").messageOptions;
+
+  before(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "suppression-test-"));
+    // Storage picks its data folder on import, so the environment is set up first.
+    process.env.DATA_DIR = dataDir;
+    process.env.STORAGE_BACKEND = "memory";
+
+    const { storage } = await import("./storage");
+    suppression = await import("./suppression");
+    ({ messageOptions } = await import("./delivery"));
+    await storage.addSuppressions([
+      { email: "unsubscribed@example.com", reason: "unsubscribe", accountKey: null },
+      { email: "complained@example.com", reason: "complaint", accountKey: "ACCOUNT1" },
+    ]);
+    await storage.storeBounce({ recipient: "gone@example.com", bounceType: "hard", accountKey: "ACCOUNT2" });
+    await storage.storeBounce({ recipient: "full@example.com", bounceType: "soft", accountKey: "ACCOUNT2" });
+  });
+
+  after(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const screen = (accountKey: string, toAddress: string, options: { ccAddress?: string; bccAddress?: string }) => {
+    const { SuppressionLookup, messageAddresses, screenAddresses } = suppression;
+    return screenAddresses(new SuppressionLookup(), accountKey, messageAddresses(toAddress, options));
+  };
+
+  test("drops suppressed CC and BCC addresses and lists them", async () => {
+    const options = { ccAddress: "friend@example.com, Unsubscribed@example.com", bccAddress: "gone@example.com; archive@example.com" };
+    const { kept, suppressed } = await screen("ACCOUNT1", "customer@example.com", options);
+    assert.deepEqual(kept, { to: ["customer@example.com"], cc: ["friend@example.com"], bcc: ["archive@example.com"] });
+    assert.deepEqual(suppressed, [
+      { email: "Unsubscribed@example.com", field: "cc", reason: "unsubscribe" },
+      { email: "gone@example.com", field: "bcc", reason: "hard_bounce" },
+    ]);
+
+    const sent = messageOptions(suppression.screenedOptions({ ...options, replyTo: "reply@example.com" }, kept));
+    assert.deepEqual(sent, { ccAddress: "friend@example.com", bccAddress: "archive@example.com", replyTo: "reply@example.com" });
+  });
+
+  test("leaves copy fields out when every copy is suppressed", async () => {
+    const options = { ccAddress: "unsubscribed@example.com", bccAddress: "gone@example.com" };
+    const { kept } = await screen("ACCOUNT1", "customer@example.com", options);
+    assert.deepEqual(messageOptions(suppression.screenedOptions(options, kept)), {});
+  });
+
+  test("account suppressions only apply to their account", async () => {
+    const options = { ccAddress: "complained@example.com" };
+    assert.equal((await screen("ACCOUNT1", "customer@example.com", options)).suppressed.length, 1);
+    assert.deepEqual((await screen("ACCOUNT3", "customer@example.com", options)).kept.cc, ["complained@example.com"]);
+  });
+
+  test("soft bounces do not suppress", async () => {
+    const { suppressed } = await screen("ACCOUNT1", "full@example.com", { bccAddress: "full@example.com" });
+    assert.deepEqual(suppressed, []);
+  });
+
+  test("reports the To match when no To address is left", async () => {
+    const { kept, suppressed, toMatch } = await screen("ACCOUNT1", "gone@example.com", { ccAddress: "friend@example.com" });
+    assert.deepEqual(kept.to, []);
+    assert.deepEqual(kept.cc, ["friend@example.com"]);
+    assert.deepEqual(suppressed, [{ email: "gone@example.com", field: "to", reason: "hard_bounce" }]);
+    assert.equal(toMatch?.source, "bounces");
+  });
+});
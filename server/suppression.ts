@@ -0,0 +1,111 @@
+import { storage } from "./storage";
+import { splitAddresses, type EmailResult, type MessageOptions, type SuppressedRecipient, type SuppressionReason } from "@shared/schema";
+
+export type SuppressionMatch = { email: string; reason: SuppressionReason; accountKey: string | null; source: 'suppression-list' | 'bounces' };
+
+// A loaded index is reused for this long. Bulk sends and campaigns check every recipient
+// against one index instead of reloading the lists per recipient, and a campaign that runs
+// for hours still picks up addresses suppressed after it started.
+const MAX_AGE_MS = 60 * 1000;
+
+// The suppression list and hard bounces, indexed by lower-cased address. Hard bounces from
+// bounces.json count as global suppressions: a mailbox that does not exist does not exist
+// for any sender.
+export class SuppressionLookup {
+  private global: Map<string, SuppressionMatch>;
+  private byAccount: Map<string, Map<string, SuppressionMatch>>;
+  private loadedAt: number;
+
+  constructor() {
+    this.global = new Map();
+    this.byAccount = new Map();
+    this.loadedAt = 0;
+  }
+
+  // Returns the suppression entry that blocks each address for the given primary account.
+  async find(emails: string[], accountKey: string): Promise<Map<string, SuppressionMatch>> {
+    if (Date.now() - this.loadedAt > MAX_AGE_MS) await this.load();
+    const forAccount = this.byAccount.get(accountKey);
+    const matches = new Map<string, SuppressionMatch>();
+    for (const email of emails) {
+      const key = email.trim().toLowerCase();
+      const match = forAccount?.get(key) ?? this.global.get(key);
+      if (match) matches.set(email, match);
+    }
+    return matches;
+  }
+
+  private async load() {
+    const [suppressions, bounces] = await Promise.all([storage.getSuppressions(), storage.getBounces()]);
+    const global = new Map<string, SuppressionMatch>();
+    const byAccount = new Map<string, Map<string, SuppressionMatch>>();
+    for (const bounce of bounces) {
+      if (bounce.bounceType !== 'hard') continue;
+      global.set(bounce.recipient.trim().toLowerCase(), { email: bounce.recipient, reason: 'hard_bounce', accountKey: null, source: 'bounces' });
+    }
+    for (const entry of suppressions) {
+      const match: SuppressionMatch = { email: entry.email, reason: entry.reason, accountKey: entry.accountKey, source: 'suppression-list' };
+      if (entry.accountKey === null) {
+        global.set(entry.email.toLowerCase(), match);
+        continue;
+      }
+      const forAccount = byAccount.get(entry.accountKey) ?? new Map<string, SuppressionMatch>();
+      forAccount.set(entry.email.toLowerCase(), match);
+      byAccount.set(entry.accountKey, forAccount);
+    }
+    this.global = global;
+    this.byAccount = byAccount;
+    this.loadedAt = Date.now();
+  }
+}
+
+export type MessageAddresses = { to: string[]; cc: string[]; bcc: string[] };
+
+export const messageAddresses = (toAddress: string, options: MessageOptions): MessageAddresses => ({
+  to: splitAddresses(toAddress),
+  cc: splitAddresses(options.ccAddress ?? ''),
+  bcc: splitAddresses(options.bccAddress ?? ''),
+});
+
+export type ScreenedAddresses = {
+  // The addresses the message may still go to.
+  kept: MessageAddresses;
+  suppressed: SuppressedRecipient[];
+  // Why the first To address is blocked, for when no To address is left.
+  toMatch: SuppressionMatch | undefined;
+};
+
+// Checks every To, CC and BCC address of one message against the sending account's
+// suppressions. Blocked addresses are dropped and listed, whichever field they were in.
+export async function screenAddresses(lookup: SuppressionLookup, accountKey: string, addresses: MessageAddresses): Promise<ScreenedAddresses> {
+  const fields = ['to', 'cc', 'bcc'] as const;
+  const matches = await lookup.find(fields.flatMap(field => addresses[field]), accountKey);
+  const kept: MessageAddresses = { to: [], cc: [], bcc: [] };
+  const suppressed: SuppressedRecipient[] = [];
+  for (const field of fields) {
+    for (const email of addresses[field]) {
+      const match = matches.get(email);
+      if (match) suppressed.push({ email, field, reason: match.reason });
+      else kept[field].push(email);
+    }
+  }
+  return { kept, suppressed, toMatch: matches.get(addresses.to[0]) };
+}
+
+// The message options with only the CC and BCC addresses that survived screening.
+export function screenedOptions<T extends MessageOptions>(options: T, kept: MessageAddresses): T {
+  return { ...options, ccAddress: kept.cc.join(','), bccAddress: kept.bcc.join(',') };
+}
+
+export function toSuppressedResult(recipient: string, match: SuppressionMatch): EmailResult {
+  return {
+    recipient,
+    status: 'Suppressed',
+    messageId: null,
+    responseCode: null,
+    error: `Recipient is suppressed (${match.reason.replace('_', ' ')})`,
+    fullResponse: match,
+    failureType: null,
+    attempts: [],
+  };
+}
@@ -0,0 +1,110 @@
+import { classifyFailure } from "./delivery";
+import { type EmailAccount, type TokenStatus } from "@shared/schema";
+
+export type AccessTokenGrant = { access_token: string; expires_in: number };
+export type FetchAccessTokenFn = (account: EmailAccount) => Promise<AccessTokenGrant>;
+
+// A token is not handed out in its last minute, so a request never starts with a token
+// that expires on the way to Zoho.
+const EXPIRY_SKEW_MS = 60 * 1000;
+// In the last five minutes the current token is still used, but a new one is fetched in
+// the background so busy accounts never wait for a refresh.
+const PROACTIVE_REFRESH_MS = 5 * 60 * 1000;
+
+type CachedToken = { accessToken: string; expiresAt: number; refreshedAt: number };
+
+// Zoho access tokens per primary account, keyed by account_key. Concurrent requests that
+// need a new token share a single refresh instead of each asking Zoho.
+export class TokenManager {
+  private tokens: Map<string, CachedToken>;
+  private refreshing: Map<string, Promise<string>>;
+  private errors: Map<string, string>;
+
+  constructor(private fetchAccessToken: FetchAccessTokenFn) {
+    this.tokens = new Map();
+    this.refreshing = new Map();
+    this.errors = new Map();
+  }
+
+  async getToken(account: EmailAccount): Promise<string> {
+    const cached = this.tokens.get(account.account_key);
+    const now = Date.now();
+    if (cached && now < cached.expiresAt - EXPIRY_SKEW_MS) {
+      if (now >= cached.expiresAt - PROACTIVE_REFRESH_MS) {
+        // The failure is kept for the status endpoint; this request still has a valid token.
+        this.refresh(account).catch(() => undefined);
+      }
+      return cached.accessToken;
+    }
+    return this.refresh(account);
+  }
+
+  refresh(account: EmailAccount): Promise<string> {
+    const key = account.account_key;
+    const pending = this.refreshing.get(key);
+    if (pending) return pending;
+    const request: Promise<string> = this.fetchAccessToken(account)
+      .then(grant => {
+        // An invalidate() while this was in flight means the credentials changed; drop the result.
+        if (this.refreshing.get(key) === request) this.store(key, grant);
+        return grant.access_token;
+      })
+      .catch(error => {
+        if (this.refreshing.get(key) === request) this.errors.set(key, error.message);
+        throw error;
+      })
+      .finally(() => {
+        if (this.refreshing.get(key) === request) this.refreshing.delete(key);
+      });
+    this.refreshing.set(key, request);
+    return request;
+  }
+
+  // Runs a Zoho call with the account's token. When Zoho rejects the token (401) it is
+  // dropped and the call is retried once with a new one.
+  async withToken<T>(account: EmailAccount, call: (accessToken: string) => Promise<T>): Promise<T> {
+    const accessToken = await this.getToken(account);
+    try {
+      return await call(accessToken);
+    } catch (error: any) {
+      if (classifyFailure(error).reason !== 'token_expired') throw error;
+      console.log(`Zoho rejected the access token for ${account.name}, refreshing and retrying`);
+      // Another request may already have replaced the token; only drop the one that failed.
+      if (this.tokens.get(account.account_key)?.accessToken === accessToken) this.tokens.delete(account.account_key);
+      return call(await this.getToken(account));
+    }
+  }
+
+  store(accountKey: string, grant: AccessTokenGrant) {
+    const now = Date.now();
+    this.tokens.set(accountKey, { accessToken: grant.access_token, expiresAt: now + grant.expires_in * 1000, refreshedAt: now });
+    this.errors.delete(accountKey);
+  }
+
+  // Forgets everything about the account's token, e.g. after its credentials change.
+  invalidate(accountKey: string) {
+    this.tokens.delete(accountKey);
+    this.refreshing.delete(accountKey);
+    this.errors.delete(accountKey);
+  }
+
+  status(accountKey: string): TokenStatus {
+    const cached = this.tokens.get(accountKey);
+    const lastError = this.errors.get(accountKey) ?? null;
+    const now = Date.now();
+    let state: TokenStatus['state'];
+    if (this.refreshing.has(accountKey)) state = "refreshing";
+    else if (lastError) state = "error";
+    else if (!cached) state = "none";
+    else if (now >= cached.expiresAt - EXPIRY_SKEW_MS) state = "expired";
+    else if (now >= cached.expiresAt - PROACTIVE_REFRESH_MS) state = "expiring";
+    else state = "valid";
+    return {
+      accountKey,
+      state,
+      expiresAt: cached ? new Date(cached.expiresAt).toISOString() : null,
+      refreshedAt: cached ? new Date(cached.refreshedAt).toISOString() : null,
+      lastError,
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { mail360WebhookSchema, type DeliveryStatus, type Mail360Event, type WebhookEvent, type WebhookEventType } from "@shared/schema";
+
+// Header carrying the hex HMAC-SHA256 of the raw request body, keyed with
+// MAIL360_WEBHOOK_SECRET. A "sha256=" prefix is accepted.
+export const SIGNATURE_HEADER = "x-mail360-signature";
+
+const DELIVERY_STATUS: Record<WebhookEventType, DeliveryStatus> = {
+  delivery: "delivered",
+  bounce: "bounced",
+  complaint: "complained",
+  failure: "failed",
+};
+
+export function webhookSecret(): string | undefined {
+  return process.env.MAIL360_WEBHOOK_SECRET || undefined;
+}
+
+export function verifySignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+  const expected = createHmac("sha256", secret).update(rawBody).digest();
+  const given = Buffer.from(signature.trim().replace(/^sha256=/i, ""), "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Applies one event to the send it reports on. Returns false when no send has that messageId.
+// An event the send already carries is skipped, so replaying a body does not record its
+// bounces twice.
+async function applyEvent(event: Mail360Event): Promise<boolean> {
+  const entry = await storage.findSendLogByMessageId(event.messageId);
+  if (!entry) return false;
+
+  const status = DELIVERY_STATUS[event.event];
+  if (entry.deliveryStatus === status) return true;
+  // A late "delivered" must not hide a bounce or complaint that was already reported.
+  if (status === "delivered" && entry.deliveryStatus) return true;
+
+  const detail = [event.statusCode, event.reason].filter(Boolean).join(" ");
+  await storage.updateSendLogEntry({
+    ...entry,
+    deliveryStatus: status,
+    deliveryUpdatedAt: event.timestamp ?? new Date().toISOString(),
+    deliveryDetail: detail || undefined,
+  });
+
+  const recipient = event.recipient ?? entry.recipient;
+  if (event.event === "bounce") {
+    await storage.storeBounce({
+      recipient,
+      bounceType: event.bounceType ?? "hard",
+      accountKey: entry.accountKey,
+      mailbox: entry.fromAddress,
+      statusCode: event.statusCode,
+      diagnostic: event.reason,
+    });
+  }
+  if (event.event === "complaint") {
+    await storage.addSuppressions([{ email: recipient, reason: "complaint", accountKey: null }]);
+  }
+  return true;
+}
+
+// Runs the events of a stored webhook body and saves the outcome on it.
+async function processWebhookEvent(record: WebhookEvent): Promise<WebhookEvent> {
+  const parsed = mail360WebhookSchema.safeParse(record.payload);
+  if (!parsed.success) {
+    return storage.saveWebhookEvent({ ...record, status: "invalid", error: parsed.error.errors.map(issue => `${issue.path.join(".") || "body"}: ${issue.message}`).join("; "), processedAt: new Date().toISOString() });
+  }
+
+  try {
+    const unmatched: string[] = [];
+    for (const event of parsed.data) {
+      if (!await applyEvent(event)) unmatched.push(event.messageId);
+    }
+    return storage.saveWebhookEvent({
+      ...record,
+      status: unmatched.length > 0 ? "unmatched" : "processed",
+      error: unmatched.length > 0 ? `No send found for messageId ${unmatched.join(", ")}` : null,
+      processedAt: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    return storage.saveWebhookEvent({ ...record, status: "failed", error: error.message || "Processing failed", processedAt: new Date().toISOString() });
+  }
+}
+
+// Stores a verified webhook body as it arrived, then processes it.
+export async function receiveWebhook(payload: unknown): Promise<WebhookEvent> {
+  const record = await storage.saveWebhookEvent({
+    id: randomUUID(),
+    receivedAt: new Date().toISOString(),
+    payload,
+    status: "failed",
+    error: "Not processed yet",
+    processedAt: null,
+  });
+  return processWebhookEvent(record);
+}
+
+// Processes a stored body again, e.g. once the send it names has been logged.
+export async function replayWebhookEvent(id: string): Promise<WebhookEvent> {
+  const record = (await storage.getWebhookEvents()).find(event => event.id === id);
+  if (!record) throw new Error("Webhook event not found.");
+  return processWebhookEvent(record);
+}
@@ -0,0 +1,14 @@
+import axios from "axios";
+
+// Every request to Zoho (OAuth and Mail360) goes through this client. Without a timeout a
+// stalled connection never fails, and a send waiting on it holds up its campaign and its
+// retries for good. A timed-out request fails with ECONNABORTED, which classifyFailure
+// treats as transient. ZOHO_TIMEOUT_SECONDS overrides the default of 30 seconds.
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+const timeoutMs = () => {
+  const seconds = Number(process.env.ZOHO_TIMEOUT_SECONDS);
+  return seconds > 0 ? seconds * 1000 : DEFAULT_TIMEOUT_MS;
+};
+
+export const zohoHttp = axios.create({ timeout: timeoutMs() });
@@ -0,0 +1,163 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import http, { type Server } from "http";
+import os from "os";
+import path from "path";
+import { randomBytes } from "crypto";
+import { type AddressInfo } from "net";
+import express from "express";
+
+// Runs the connect flow (POST /api/oauth/zoho/start, then Zoho's redirect to the callback)
+// against a mock of Zoho's token and Mail360 endpoints, with the data files in a
+// temporary folder.
+
+type TokenRequest = Record<string, string>;
+
+const tokenRequests: TokenRequest[] = [];
+
+// Authorization code "good-code" is redeemed once; anything else is refused the way Zoho
+// does it, with a 200 and an "error" field.
+function startMockZoho(): Promise<Server> {
+  const redeemed = new Set<string>();
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => {
+      res.setHeader("Content-Type", "application/json");
+      const url = new URL(req.url || "/", "http://zoho.test");
+      if (req.method === "POST" && url.pathname === "/oauth/v2/token") {
+        const params = Object.fromEntries(new URLSearchParams(body));
+        tokenRequests.push(params);
+        if (params.grant_type === "refresh_token") {
+          return res.end(JSON.stringify({ access_token: "access-1", expires_in: 3600 }));
+        }
+        if (params.code !== "good-code" || redeemed.has(params.code)) {
+          return res.end(JSON.stringify({ error: "invalid_code" }));
+        }
+        redeemed.add(params.code);
+        return res.end(JSON.stringify({ access_token: "access-1", refresh_token: "refresh-1", expires_in: 3600 }));
+      }
+      if (req.method === "GET" && url.pathname === "/api/accounts") {
+        return res.end(JSON.stringify({ status: { code: 200 }, data: [{ account_key: "SUB1", emailAddress: "sender@example.com" }] }));
+      }
+      res.statusCode = 404;
+      res.end("{}");
+    });
+  });
+  return new Promise(resolve => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+const baseUrl = (server: Server) => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+describe("Zoho OAuth connect flow", () => {
+  let zoho: Server;
+  let app: Server;
+  let dataDir: string;
+  let storage: typeof import("./storage").storage;
+
+  before(async () => {
+    zoho = await startMockZoho();
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "zoho-oauth-test-"));
+    // Storage picks its data folder on import, so the environment is set up first.
+    process.env.DATA_DIR = dataDir;
+    process.env.STORAGE_BACKEND = "memory";
+    process.env.ACCOUNTS_MASTER_KEY = randomBytes(32).toString("base64");
+    process.env.BOUNCE_POLL_INTERVAL_SECONDS = "0";
+    process.env.ZOHO_ACCOUNTS_URL = baseUrl(zoho);
+    process.env.ZOHO_MAIL360_URL = baseUrl(zoho);
+    delete process.env.ZOHO_REDIRECT_URI;
+
+    const { registerRoutes } = await import("./routes");
+    ({ storage } = await import("./storage"));
+    const expressApp = express();
+    expressApp.use(express.json());
+    app = await registerRoutes(expressApp);
+    await new Promise<void>(resolve => app.listen(0, "127.0.0.1", resolve));
+  });
+
+  after(async () => {
+    await new Promise(resolve => app.close(resolve));
+    await new Promise(resolve => zoho.close(resolve));
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const start = async (region = "com") => {
+    const res = await fetch(`${baseUrl(app)}/api/oauth/zoho/start`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Test account", client_id: "client-1", client_secret: "secret-1", region }),
+    });
+    assert.equal(res.status, 200);
+    const { authorizeUrl } = await res.json();
+    return new URL(authorizeUrl);
+  };
+
+  // Follows Zoho's redirect back to the app and returns where the app sends the browser.
+  const callback = async (params: Record<string, string>) => {
+    const res = await fetch(`${baseUrl(app)}/api/oauth/zoho/callback?${new URLSearchParams(params)}`, { redirect: "manual" });
+    assert.equal(res.status, 302);
+    return new URL(res.headers.get("location") || "", baseUrl(app)).searchParams;
+  };
+
+  test("start builds the consent URL with a fresh state", async () => {
+    const authorizeUrl = await start();
+    assert.equal(authorizeUrl.origin, baseUrl(zoho));
+    assert.equal(authorizeUrl.pathname, "/oauth/v2/auth");
+    assert.equal(authorizeUrl.searchParams.get("client_id"), "client-1");
+    assert.equal(authorizeUrl.searchParams.get("redirect_uri"), `${baseUrl(app)}/api/oauth/zoho/callback`);
+    assert.equal(authorizeUrl.searchParams.get("access_type"), "offline");
+    assert.match(authorizeUrl.searchParams.get("state") || "", /^[0-9a-f]{48}$/);
+  });
+
+  test("start rejects an unknown region", async () => {
+    const res = await fetch(`${baseUrl(app)}/api/oauth/zoho/start`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Test account", client_id: "client-1", client_secret: "secret-1", region: "mars" }),
+    });
+    assert.equal(res.status, 400);
+  });
+
+  test("callback redeems the code and saves the account in the region Zoho reports", async () => {
+    const state = (await start("com")).searchParams.get("state")!;
+    const result = await callback({ state, code: "good-code", "accounts-server": "https://accounts.zoho.eu" });
+    assert.equal(result.get("oauth_connected"), "Test account");
+
+    const redeem = tokenRequests.find(request => request.grant_type === "authorization_code" && request.code === "good-code");
+    assert.equal(redeem?.redirect_uri, `${baseUrl(app)}/api/oauth/zoho/callback`);
+    assert.equal(redeem?.client_secret, "secret-1");
+
+    const [account] = await storage.getEmailAccounts();
+    assert.equal(account.region, "eu");
+    assert.equal(account.refresh_token, "refresh-1");
+    assert.equal(account.fromAddress, "sender@example.com");
+    // The secrets are encrypted on disk.
+    assert.doesNotMatch(fs.readFileSync(path.join(dataDir, "accounts.json"), "utf8"), /refresh-1|secret-1/);
+  });
+
+  test("callback refuses a state that was already used", async () => {
+    const state = (await start()).searchParams.get("state")!;
+    await callback({ state, code: "other-code" });
+    const result = await callback({ state, code: "good-code" });
+    assert.match(result.get("oauth_error") || "", /expired/);
+  });
+
+  test("callback refuses an unknown state", async () => {
+    const result = await callback({ state: "not-a-state", code: "good-code" });
+    assert.match(result.get("oauth_error") || "", /expired/);
+  });
+
+  test("callback reports a denied consent", async () => {
+    const result = await callback({ error: "access_denied" });
+    assert.equal(result.get("oauth_error"), "Zoho authorization failed: access_denied");
+  });
+
+  test("callback reports a code Zoho refuses", async () => {
+    const state = (await start()).searchParams.get("state")!;
+    const accountsBefore = (await storage.getEmailAccounts()).length;
+    const result = await callback({ state, code: "bad-code" });
+    assert.equal(result.get("oauth_error"), "Zoho rejected the authorization code: invalid_code");
+    assert.equal((await storage.getEmailAccounts()).length, accountsBefore);
+  });
+});
@@ -0,0 +1,101 @@
+import { zohoHttp } from "./zoho-http";
+import { randomBytes } from "crypto";
+import { URLSearchParams } from "url";
+import { type ZohoRegion } from "@shared/schema";
+import { zohoAccountsUrl } from "./zoho-regions";
+
+// Zoho OAuth settings. ZOHO_OAUTH_SCOPES and ZOHO_REDIRECT_URI override the defaults below;
+// the accounts server comes from the account's region (see zoho-regions.ts).
+const DEFAULT_SCOPES = "ZohoMail360.accounts.ALL,ZohoMail360.messages.ALL";
+export const OAUTH_CALLBACK_PATH = "/api/oauth/zoho/callback";
+
+// Consent has to finish within this time or the user starts again.
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+export function zohoOAuthScopes(): string {
+  return process.env.ZOHO_OAUTH_SCOPES || DEFAULT_SCOPES;
+}
+
+// The redirect URI registered with the Zoho client. Falls back to this server's own callback.
+export function oauthRedirectUri(requestOrigin: string): string {
+  return process.env.ZOHO_REDIRECT_URI || `${requestOrigin}${OAUTH_CALLBACK_PATH}`;
+}
+
+export type PendingConnection = {
+  name: string;
+  client_id: string;
+  client_secret: string;
+  fromAddress?: string;
+  region: ZohoRegion;
+  redirectUri: string;
+  createdAt: number;
+};
+
+// Connections waiting for the user to come back from Zoho's consent screen, keyed by
+// the OAuth state parameter. Kept in memory: a restart just means clicking Connect again.
+export class PendingConnections {
+  private pending: Map<string, PendingConnection>;
+
+  constructor() {
+    this.pending = new Map();
+  }
+
+  add(connection: Omit<PendingConnection, "createdAt">): string {
+    this.prune();
+    const state = randomBytes(24).toString("hex");
+    this.pending.set(state, { ...connection, createdAt: Date.now() });
+    return state;
+  }
+
+  // Each state can be used once.
+  take(state: string): PendingConnection | undefined {
+    this.prune();
+    const connection = this.pending.get(state);
+    this.pending.delete(state);
+    return connection;
+  }
+
+  private prune() {
+    const cutoff = Date.now() - PENDING_TTL_MS;
+    this.pending.forEach((connection, state) => {
+      if (connection.createdAt < cutoff) this.pending.delete(state);
+    });
+  }
+}
+
+export function buildAuthorizeUrl(region: ZohoRegion, clientId: string, redirectUri: string, state: string): string {
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: clientId,
+    scope: zohoOAuthScopes(),
+    redirect_uri: redirectUri,
+    state,
+    // Offline access plus a forced consent screen is what makes Zoho return a refresh token.
+    access_type: "offline",
+    prompt: "consent",
+  });
+  return `${zohoAccountsUrl(region)}/oauth/v2/auth?${params.toString()}`;
+}
+
+// The code is redeemed at the accounts server of the region the user actually signed in to.
+export async function exchangeAuthorizationCode(connection: PendingConnection, code: string, region: ZohoRegion) {
+  const params = new URLSearchParams();
+  params.append("grant_type", "authorization_code");
+  params.append("code", code);
+  params.append("client_id", connection.client_id);
+  params.append("client_secret", connection.client_secret);
+  params.append("redirect_uri", connection.redirectUri);
+  const response = await zohoHttp.post(`${zohoAccountsUrl(region)}/oauth/v2/token`, params, { headers: { "Content-Type": "application/x-www-form-urlencoded" } });
+  // Zoho answers 200 with an "error" field when the code is invalid or already used.
+  if (response.data.error) {
+    throw new Error(`Zoho rejected the authorization code: ${response.data.error}`);
+  }
+  if (!response.data.refresh_token) {
+    throw new Error("Zoho did not return a refresh token. Remove the app's access in Zoho and connect again.");
+  }
+  return {
+    access_token: response.data.access_token as string,
+    refresh_token: response.data.refresh_token as string,
+    expires_in: response.data.expires_in as number,
+  };
+}
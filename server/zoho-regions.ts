@@ -0,0 +1,33 @@
+import { zohoRegionSchema, type ZohoRegion } from "@shared/schema";
+
+// The domain each Zoho data centre serves its accounts and Mail360 hosts from.
+const REGION_DOMAINS: Record<ZohoRegion, string> = {
+  com: "zoho.com",
+  eu: "zoho.eu",
+  in: "zoho.in",
+  "com.au": "zoho.com.au",
+  jp: "zoho.jp",
+  ca: "zohocloud.ca",
+  sa: "zoho.sa",
+  uk: "zoho.uk",
+  "com.cn": "zoho.com.cn",
+};
+
+// ZOHO_ACCOUNTS_URL and ZOHO_MAIL360_URL replace the hosts for every region, which is
+// only useful for pointing the app at a local mock while developing.
+const withoutTrailingSlash = (url: string) => url.replace(/\/+$/, "");
+
+export function zohoAccountsUrl(region: ZohoRegion): string {
+  return withoutTrailingSlash(process.env.ZOHO_ACCOUNTS_URL || `https://accounts.${REGION_DOMAINS[region]}`);
+}
+
+export function mail360Url(region: ZohoRegion): string {
+  return withoutTrailingSlash(process.env.ZOHO_MAIL360_URL || `https://mail360.${REGION_DOMAINS[region]}`);
+}
+
+// Maps an accounts server URL such as "https://accounts.zoho.eu" back to its region.
+// Anything that is not a known Zoho accounts server gives undefined.
+export function regionForAccountsServer(accountsServer: unknown): ZohoRegion | undefined {
+  if (typeof accountsServer !== "string") return undefined;
+  return zohoRegionSchema.options.find(region => accountsServer === `https://accounts.${REGION_DOMAINS[region]}`);
+}
@@ -0,0 +1,56 @@
+// Turns an HTML email body into a readable plain-text version, shared by the compose forms
+// (which show the generated text and let the user edit it) and the server (which fills in
+// the text part when the request does not carry one).
+//
+// Block elements become line breaks, list items get a "- " bullet, links keep their URL
+// in brackets after the text, and entities are decoded.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+  copy: '©', reg: '®', trade: '™', hellip: '…', mdash: '—', ndash: '–',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', euro: '€', pound: '£',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+export function htmlToText(html: string): string {
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|style|script|title)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    // Source line breaks mean nothing in HTML.
+    .replace(/\s+/g, ' ')
+    .replace(/<a\s[^>]*href\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+      const labelText = label.replace(/<[^>]+>/g, '').trim();
+      if (!href || href.startsWith('#') || href.startsWith('mailto:') || labelText === href) return label;
+      return `${label} [${href}]`;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<hr[^>]*>/gi, '\n----------\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(td|th)>/gi, '\t')
+    .replace(/<\/tr>/gi, '\n')
+    .replace(/<\/?(p|div|h[1-6]|ul|ol|table|blockquote|section|article|header|footer)[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  text = decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+  return text.trim();
+}
+
+// The text part of a message: the user's edited text when there is one, otherwise text
+// generated from the HTML. render applies merge tags, so the form preview and the server
+// produce the same text for a recipient.
+export function textPart(body: { content: string; textContent?: string }, render: (template: string, format?: 'html' | 'text') => string = template => template): string {
+  return body.textContent !== undefined ? render(body.textContent, 'text') : htmlToText(render(body.content, 'html'));
+}
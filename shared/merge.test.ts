@@ -0,0 +1,60 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { extractMergeFields, fieldsForRecipient, mergeRenderer, parseRecipientTable, renderMergeTags } from "./merge";
+
+describe("renderMergeTags", () => {
+  const fields = { first_name: "Ana", nickname: " ", company: "Smith & <Sons>" };
+
+  test("fills columns by normalised name, empty when missing", () => {
+    assert.equal(renderMergeTags("Hi {{ First Name }}, {{title}}!", fields), "Hi Ana, !");
+  });
+
+  test("falls back through columns to a literal", () => {
+    assert.equal(renderMergeTags('{{nickname | first_name | "there"}}', fields), "Ana");
+    assert.equal(renderMergeTags("{{nickname | title | 'friend'}}", fields), "friend");
+  });
+
+  test("escapes column values in HTML only", () => {
+    assert.equal(renderMergeTags("<p>{{company}}</p>", fields, { html: true }), "<p>Smith &amp; &lt;Sons&gt;</p>");
+    assert.equal(renderMergeTags('{{title | "<b>you</b>"}}', fields, { html: true }), "<b>you</b>");
+    const render = mergeRenderer(fields);
+    assert.equal(render("{{company}}"), "Smith & <Sons>");
+    assert.equal(render("{{company}}", "html"), "Smith &amp; &lt;Sons&gt;");
+  });
+
+  test("lists the fields a template uses", () => {
+    assert.deepEqual(extractMergeFields('{{First Name}} {{nickname | company | "x"}}'), ["first_name", "nickname", "company"]);
+  });
+});
+
+describe("parseRecipientTable", () => {
+  test("reads quoted CSV fields with delimiters, line breaks and escaped quotes", () => {
+    const table = parseRecipientTable('Email,First Name,Note\r\nana@example.com,Ana,"Likes ""cats"", dogs"\r\nbo@example.com,Bo,"two\nlines"\r\n');
+    assert.deepEqual(table.columns, ["email", "first_name", "note"]);
+    assert.equal(table.emailColumn, "email");
+    assert.deepEqual(table.rows, [
+      { email: "ana@example.com", first_name: "Ana", note: 'Likes "cats", dogs' },
+      { email: "bo@example.com", first_name: "Bo", note: "two\nlines" },
+    ]);
+  });
+
+  test("detects tab and semicolon delimiters", () => {
+    assert.equal(parseRecipientTable("email\tname\nana@example.com\tAna").rows[0].name, "Ana");
+    assert.equal(parseRecipientTable("email;name\nana@example.com;Ana").rows[0].name, "Ana");
+  });
+
+  test("finds the email column by its contents when no header names it", () => {
+    const table = parseRecipientTable("name,contact\nAna,ana@example.com\n,\nBo,");
+    assert.equal(table.emailColumn, "contact");
+    assert.deepEqual(table.rows.map(row => row.email), ["ana@example.com"]);
+  });
+
+  test("refuses files without an email column", () => {
+    assert.throws(() => parseRecipientTable("name\nAna"), /No email column/);
+    assert.throws(() => parseRecipientTable(""), /empty/);
+  });
+
+  test("matches merge data to recipients regardless of case", () => {
+    assert.deepEqual(fieldsForRecipient(" Ana@Example.com ", { "ana@example.com": { first_name: "Ana" } }), { first_name: "Ana", email: "Ana@Example.com" });
+  });
+});
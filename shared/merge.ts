@@ -0,0 +1,122 @@
+// Merge-tag rendering and CSV/TSV recipient parsing, shared by the bulk form (preview)
+// and the server (actual sends) so both produce exactly the same email.
+//
+// Tag syntax:
+//   {{first_name}}                     value of the first_name column, empty if missing
+//   {{first_name | "there"}}           falls back to the literal "there"
+//   {{nickname | first_name | "there"}} first non-empty column wins, then the literal
+
+export type MergeFields = Record<string, string>;
+
+export type RecipientTable = {
+  columns: string[];
+  emailColumn: string;
+  rows: MergeFields[];
+};
+
+const TAG_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// "First Name" and "first_name" refer to the same column.
+export const normalizeFieldName = (name: string) => name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+// With html set, column values are escaped so that a "<" or a tag in the data shows up as
+// text instead of becoming markup. Literal fallbacks are part of the template and are left
+// as written. Subjects and text parts are rendered without it.
+export function renderMergeTags(template: string, fields: MergeFields, options: { html?: boolean } = {}): string {
+  return template.replace(TAG_PATTERN, (_match, expression: string) => {
+    for (const option of expression.split('|').map(part => part.trim())) {
+      const literal = option.match(/^"(.*)"$|^'(.*)'$/);
+      if (literal) return literal[1] ?? literal[2];
+      const value = fields[normalizeFieldName(option)];
+      if (value !== undefined && value.trim() !== '') return options.html ? escapeHtml(value) : value;
+    }
+    return '';
+  });
+}
+
+// Renders the parts of one recipient's message; format says whether the template is an
+// HTML body or plain text.
+export type MergeRender = (template: string, format?: 'html' | 'text') => string;
+
+export const mergeRenderer = (fields: MergeFields): MergeRender =>
+  (template, format = 'text') => renderMergeTags(template, fields, { html: format === 'html' });
+
+// Lists the field names used in a template, e.g. to warn about columns the data does not have.
+export function extractMergeFields(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of Array.from(template.matchAll(TAG_PATTERN))) {
+    for (const option of match[1].split('|').map(part => part.trim())) {
+      if (!/^["']/.test(option)) names.add(normalizeFieldName(option));
+    }
+  }
+  return Array.from(names);
+}
+
+function detectDelimiter(headerLine: string): string {
+  if (headerLine.includes('\t')) return '\t';
+  if (headerLine.includes(';') && !headerLine.includes(',')) return ';';
+  return ',';
+}
+
+// RFC 4180 style: quoted fields may contain delimiters, newlines and "" escapes.
+function parseRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') { inQuotes = false; }
+      else { field += char; }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+export function parseRecipientTable(text: string): RecipientTable {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const [header, ...dataRows] = parseRows(text, detectDelimiter(firstLine));
+  if (!header) throw new Error('The file is empty.');
+
+  const columns = header.map(normalizeFieldName);
+  let emailIndex = columns.findIndex(column => /^e_?mail(_address)?$/.test(column));
+  if (emailIndex === -1) {
+    emailIndex = columns.findIndex((_column, index) => dataRows.some(cells => EMAIL_PATTERN.test((cells[index] || '').trim())));
+  }
+  if (emailIndex === -1) throw new Error('No email column found. Add a column named "email".');
+
+  const rows = dataRows.map(cells => {
+    const fields: MergeFields = {};
+    columns.forEach((column, index) => { fields[column] = (cells[index] || '').trim(); });
+    fields.email = fields[columns[emailIndex]];
+    return fields;
+  }).filter(fields => fields.email);
+
+  return { columns, emailColumn: columns[emailIndex], rows };
+}
+
+// Merge data is keyed by lower-cased address so edits to the recipient list keep matching rows.
+export const mergeDataKey = (email: string) => email.trim().toLowerCase();
+
+export function fieldsForRecipient(email: string, mergeData?: Record<string, MergeFields>): MergeFields {
+  return { ...(mergeData?.[mergeDataKey(email)] || {}), email: email.trim() };
+}
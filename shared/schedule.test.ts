@@ -0,0 +1,37 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { formatInTimeZone, isValidTimeZone, zonedTimeToUtc } from "./schedule";
+
+describe("zonedTimeToUtc", () => {
+  test("converts a wall-clock time in the zone to UTC", () => {
+    assert.equal(zonedTimeToUtc("2025-01-15T09:00", "Europe/Paris").toISOString(), "2025-01-15T08:00:00.000Z");
+    assert.equal(zonedTimeToUtc("2025-07-15 09:00:30", "America/New_York").toISOString(), "2025-07-15T13:00:30.000Z");
+    assert.equal(zonedTimeToUtc("2025-03-01T09:00", "Asia/Kolkata").toISOString(), "2025-03-01T03:30:00.000Z");
+  });
+
+  test("uses the offset in force on either side of a DST change", () => {
+    // Europe/Paris moved from +01:00 to +02:00 at 02:00 on 30 March 2025.
+    assert.equal(zonedTimeToUtc("2025-03-30T01:30", "Europe/Paris").toISOString(), "2025-03-30T00:30:00.000Z");
+    assert.equal(zonedTimeToUtc("2025-03-30T03:30", "Europe/Paris").toISOString(), "2025-03-30T01:30:00.000Z");
+  });
+
+  test("takes times with an offset as they are", () => {
+    assert.equal(zonedTimeToUtc("2025-01-15T09:00:00Z", "Europe/Paris").toISOString(), "2025-01-15T09:00:00.000Z");
+    assert.equal(zonedTimeToUtc("2025-01-15T09:00:00+05:00", "Europe/Paris").toISOString(), "2025-01-15T04:00:00.000Z");
+  });
+
+  test("refuses times it cannot read", () => {
+    assert.throws(() => zonedTimeToUtc("tomorrow morning", "Europe/Paris"), /Invalid date and time/);
+  });
+});
+
+describe("time zone helpers", () => {
+  test("knows IANA zones", () => {
+    assert.equal(isValidTimeZone("Europe/Paris"), true);
+    assert.equal(isValidTimeZone("Mars/Olympus_Mons"), false);
+  });
+
+  test("formats an instant in the zone", () => {
+    assert.match(formatInTimeZone("2025-01-15T08:00:00Z", "Europe/Paris"), /Jan 15, 2025, 9:00\sAM/);
+  });
+});
@@ -0,0 +1,55 @@
+// Time zone helpers for scheduled sends, built on Intl so they work the same in the
+// browser and on the server. A schedule is entered as a wall-clock time ("2025-03-01T09:00")
+// plus an IANA zone ("Europe/Paris") and stored with the matching UTC instant.
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant.
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// Converts a wall-clock time in a zone to a UTC Date. Strings that already carry an
+// offset ("...Z", "...+02:00") are taken as-is.
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date {
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(localDateTime)) return new Date(localDateTime);
+  const match = localDateTime.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) throw new Error(`Invalid date and time: ${localDateTime}`);
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second || 0);
+  // The offset can differ on either side of a DST change, so check it again at the result.
+  const firstGuess = asUtc - zoneOffset(asUtc, timeZone);
+  return new Date(asUtc - zoneOffset(firstGuess, timeZone));
+}
+
+// dateStyle and timeStyle cannot be combined with timeZoneName, so the fields are listed.
+export function formatInTimeZone(instant: string | Date, timeZone: string): string {
+  return new Date(instant).toLocaleString("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
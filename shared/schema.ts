@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, serial, integer, jsonb, primaryKey, index, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidTimeZone, zonedTimeToUtc } from "./schedule";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -15,9 +16,135 @@ export const bounces = pgTable("bounces", {
     recipient: text("recipient").notNull(),
     bounceType: text("bounceType").notNull(),
     accountKey: text("accountKey").notNull(),
+    mailbox: text("mailbox"),
+    messageId: text("message_id"),
+    statusCode: text("status_code"),
+    diagnostic: text("diagnostic"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Tables used by DbStorage. Nested structures (campaign recipients, template versions,
+// scheduled payloads) are kept as jsonb since they are always read and written whole.
+export const emailAccounts = pgTable("email_accounts", {
+    accountKey: varchar("account_key").primaryKey(),
+    name: text("name").notNull(),
+    fromAddress: text("from_address").notNull(),
+    clientId: text("client_id").notNull(),
+    clientSecret: text("client_secret").notNull(),
+    refreshToken: text("refresh_token").notNull(),
+    enabled: boolean("enabled").default(true).notNull(),
+    region: text("region").$type<ZohoRegion>().default("com").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const sendLog = pgTable("send_log", {
+    id: varchar("id").primaryKey(),
+    sentAt: timestamp("sent_at").notNull(),
+    source: text("source").notNull(),
+    batchId: varchar("batch_id"),
+    accountKey: text("account_key").notNull(),
+    fromAddress: text("from_address").notNull(),
+    recipient: text("recipient").notNull(),
+    subject: text("subject").notNull(),
+    status: text("status").notNull(),
+    messageId: text("message_id"),
+    responseCode: integer("response_code"),
+    failureType: text("failure_type"),
+    error: jsonb("error"),
+    fullResponse: jsonb("full_response"),
+    attempts: jsonb("attempts").$type<SendAttempt[]>(),
+    attachments: jsonb("attachments").$type<AttachmentInfo[]>(),
+    deliveryStatus: text("delivery_status"),
+    deliveryUpdatedAt: timestamp("delivery_updated_at"),
+    deliveryDetail: text("delivery_detail"),
+    trackingToken: text("tracking_token"),
+    suppressedRecipients: jsonb("suppressed_recipients").$type<SuppressedRecipient[]>(),
+}, (table) => [
+    index("send_log_message_id_idx").on(table.messageId),
+    index("send_log_sent_at_idx").on(table.sentAt),
+    index("send_log_batch_id_idx").on(table.batchId),
+]);
+
+export const campaigns = pgTable("campaigns", {
+    id: varchar("id").primaryKey(),
+    primaryAccountKey: text("primary_account_key").notNull(),
+    accountSelect: text("account_select").notNull(),
+    senders: jsonb("senders").$type<Sender[]>(),
+    rotation: text("rotation"),
+    subject: text("subject").notNull(),
+    content: text("content").notNull(),
+    mailFormat: text("mail_format"),
+    textContent: text("text_content"),
+    attachmentIds: jsonb("attachment_ids").$type<string[]>(),
+    ccAddress: text("cc_address"),
+    bccAddress: text("bcc_address"),
+    replyTo: text("reply_to"),
+    headers: jsonb("headers").$type<CustomHeader[]>(),
+    trackOpens: boolean("track_opens"),
+    status: text("status").notNull(),
+    recipients: jsonb("recipients").$type<CampaignRecipient[]>().notNull(),
+    createdAt: timestamp("created_at").notNull(),
+    updatedAt: timestamp("updated_at").notNull(),
+});
+
+export const rateLimits = pgTable("rate_limits", {
+    scope: text("scope").notNull(),
+    key: text("key").notNull(),
+    perMinute: integer("per_minute"),
+    perHour: integer("per_hour"),
+    perDay: integer("per_day"),
+}, (table) => [primaryKey({ columns: [table.scope, table.key] })]);
+
+export const suppressions = pgTable("suppressions", {
+    id: varchar("id").primaryKey(),
+    email: text("email").notNull(),
+    reason: text("reason").notNull(),
+    accountKey: text("account_key"),
+    createdAt: timestamp("created_at").notNull(),
+});
+
+export const emailTemplates = pgTable("email_templates", {
+    id: varchar("id").primaryKey(),
+    name: text("name").notNull(),
+    versions: jsonb("versions").$type<TemplateVersion[]>().notNull(),
+    createdAt: timestamp("created_at").notNull(),
+    updatedAt: timestamp("updated_at").notNull(),
+});
+
+export const scheduledJobs = pgTable("scheduled_jobs", {
+    id: varchar("id").primaryKey(),
+    type: text("type").notNull(),
+    payload: jsonb("payload").$type<ScheduledJob["payload"]>().notNull(),
+    scheduledAt: text("scheduled_at").notNull(),
+    timeZone: text("time_zone").notNull(),
+    runAt: timestamp("run_at").notNull(),
+    status: text("status").notNull(),
+    campaignId: varchar("campaign_id"),
+    result: jsonb("result").$type<EmailResult>(),
+    error: text("error"),
+    createdAt: timestamp("created_at").notNull(),
+    dispatchedAt: timestamp("dispatched_at"),
+});
+
+export const openTracking = pgTable("open_tracking", {
+    token: varchar("token").primaryKey(),
+    batchId: varchar("batch_id").notNull(),
+    recipient: text("recipient").notNull(),
+    count: integer("count").notNull(),
+    firstOpen: jsonb("first_open").$type<OpenEvent>(),
+    lastOpen: jsonb("last_open").$type<OpenEvent>(),
+    createdAt: timestamp("created_at").notNull(),
+});
+
+export const webhookEvents = pgTable("webhook_events", {
+    id: varchar("id").primaryKey(),
+    receivedAt: timestamp("received_at").notNull(),
+    payload: jsonb("payload").notNull(),
+    status: text("status").notNull(),
+    error: text("error"),
+    processedAt: timestamp("processed_at"),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -26,6 +153,24 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Zoho data centres. An account's region picks both its accounts server (OAuth) and its
+// Mail360 API host; accounts saved before regions existed are on zoho.com.
+export const zohoRegionSchema = z.enum(["com", "eu", "in", "com.au", "jp", "ca", "sa", "uk", "com.cn"]);
+
+export type ZohoRegion = z.infer<typeof zohoRegionSchema>;
+
+export const zohoRegionLabels: Record<ZohoRegion, string> = {
+  com: "United States (zoho.com)",
+  eu: "Europe (zoho.eu)",
+  in: "India (zoho.in)",
+  "com.au": "Australia (zoho.com.au)",
+  jp: "Japan (zoho.jp)",
+  ca: "Canada (zohocloud.ca)",
+  sa: "Saudi Arabia (zoho.sa)",
+  uk: "United Kingdom (zoho.uk)",
+  "com.cn": "China (zoho.com.cn)",
+};
+
 // Email account schema
 export const emailAccountSchema = z.object({
   name: z.string(),
@@ -34,40 +179,555 @@ export const emailAccountSchema = z.object({
   client_id: z.string(),
   client_secret: z.string(),
   refresh_token: z.string(),
+  // Disabled accounts stay configured but cannot send.
+  enabled: z.boolean().default(true),
+  region: zohoRegionSchema.default("com"),
 });
 
 export type EmailAccount = z.infer<typeof emailAccountSchema>;
 
+// Editable account fields. Blank credentials keep the stored value.
+export const updateAccountSchema = z.object({
+  name: z.string().min(1, "Account name is required").optional(),
+  fromAddress: z.string().email().optional(),
+  client_id: z.string().min(1, "Client ID is required").optional(),
+  client_secret: z.string().optional(),
+  refresh_token: z.string().optional(),
+  region: zohoRegionSchema.optional(),
+});
+
+export type UpdateAccount = z.infer<typeof updateAccountSchema>;
+
+// Mail360 sub-account management. accountKey is the primary account whose credentials
+// make the call; the sub-account is addressed by its Zoho account_key.
+export const createSubAccountSchema = z.object({
+  accountKey: z.string().min(1, "accountKey is required"),
+  emailAddress: z.string().email("Enter a valid email address"),
+  displayName: z.string().optional(),
+});
+
+export type CreateSubAccount = z.infer<typeof createSubAccountSchema>;
+
+export const updateSubAccountSchema = z.object({
+  accountKey: z.string().min(1, "accountKey is required"),
+  enabled: z.boolean().optional(),
+  incomingBlocked: z.boolean().optional(),
+  outgoingBlocked: z.boolean().optional(),
+}).refine(
+  changes => changes.enabled !== undefined || changes.incomingBlocked !== undefined || changes.outgoingBlocked !== undefined,
+  "Nothing to change",
+);
+
+export type UpdateSubAccount = z.infer<typeof updateSubAccountSchema>;
+
+// The account fields that are safe to send to the browser.
+export const publicEmailAccountSchema = emailAccountSchema.omit({ client_secret: true, refresh_token: true });
+
+export type PublicEmailAccount = z.infer<typeof publicEmailAccountSchema>;
+
+// The server's cached Zoho access token for an account. Times are ISO strings.
+export type TokenStatus = {
+  accountKey: string;
+  state: "none" | "valid" | "expiring" | "expired" | "refreshing" | "error";
+  expiresAt: string | null;
+  refreshedAt: string | null;
+  lastError: string | null;
+};
+
+// Optional schedule on a send: a wall-clock time in the given IANA time zone.
+const scheduleFields = {
+  scheduledAt: z.string().optional(),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+};
+
+// A scheduled time needs its time zone, and must be a date and time still to come.
+const checkSchedule = (data: { scheduledAt?: string; timeZone?: string }, ctx: z.RefinementCtx) => {
+  if (!data.scheduledAt) return;
+  if (!data.timeZone) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["timeZone"], message: "A time zone is required with a scheduled time" });
+    return;
+  }
+  // An unknown zone is already reported by the field itself.
+  if (!isValidTimeZone(data.timeZone)) return;
+  let runAt: number;
+  try {
+    runAt = zonedTimeToUtc(data.scheduledAt, data.timeZone).getTime();
+  } catch {
+    runAt = NaN;
+  }
+  if (Number.isNaN(runAt)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["scheduledAt"], message: "Invalid scheduled date and time" });
+  } else if (runAt < Date.now()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["scheduledAt"], message: "Scheduled time is in the past" });
+  }
+};
+
 // Single email schema
+// Files staged on the server with POST /api/attachments and referenced by id from sends.
+// The limits are checked in the browser before upload and again on the server.
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+// Executable and script types that Zoho and most receiving servers reject anyway.
+export const BLOCKED_ATTACHMENT_EXTENSIONS = ["exe", "com", "bat", "cmd", "msi", "scr", "pif", "vbs", "js", "jar", "ps1", "sh", "dll"];
+
+export const attachmentSchema = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  contentType: z.string(),
+  size: z.number(),
+  createdAt: z.string(),
+});
+
+export type Attachment = z.infer<typeof attachmentSchema>;
+
+// What a send result records about the files that went with the message.
+export const attachmentInfoSchema = attachmentSchema.pick({ id: true, fileName: true, size: true });
+
+export type AttachmentInfo = z.infer<typeof attachmentInfoSchema>;
+
+const attachmentIdsField = z.array(z.string()).max(MAX_ATTACHMENTS_PER_MESSAGE, `At most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments per message`).optional();
+
+// Address fields take one or more addresses separated by commas or semicolons, and are
+// passed to Zoho comma-separated.
+export const splitAddresses = (value: string) => value.split(/[,;]/).map(address => address.trim()).filter(address => address);
+
+const emailAddress = z.string().email();
+
+const addressListField = (label: string) => z.string().superRefine((value, ctx) => {
+  const invalid = splitAddresses(value).filter(address => !emailAddress.safeParse(address).success);
+  if (invalid.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} has invalid addresses: ${invalid.join(', ')}` });
+  }
+});
+
+// Custom headers must be X- headers, so they cannot override the ones Zoho sets itself.
+export const MAX_CUSTOM_HEADERS = 10;
+
+export const customHeaderSchema = z.object({
+  name: z.string().regex(/^X-[A-Za-z0-9-]+$/, "Header names must start with X- and use only letters, digits and dashes"),
+  value: z.string().max(998, "Header values are limited to 998 characters").refine(value => !/[\r\n]/.test(value), "Header values cannot contain line breaks"),
+});
+
+export type CustomHeader = z.infer<typeof customHeaderSchema>;
+
+// Copies, reply address and custom headers. They are the same for every message of a
+// bulk send; only To changes per recipient.
+const messageOptionFields = {
+  ccAddress: addressListField("CC").optional(),
+  bccAddress: addressListField("BCC").optional(),
+  replyTo: z.union([z.literal(""), z.string().email("Reply-To must be a valid email address")]).optional(),
+  headers: z.array(customHeaderSchema).max(MAX_CUSTOM_HEADERS, `At most ${MAX_CUSTOM_HEADERS} custom headers`).optional(),
+};
+
+export type MessageOptions = { ccAddress?: string; bccAddress?: string; replyTo?: string; headers?: CustomHeader[] };
+
+// Which body parts a message has: the HTML content, a plain-text version, or both as
+// multipart/alternative. The text part is textContent when given, otherwise it is
+// generated from the HTML (see html-to-text.ts).
+export const mailFormatSchema = z.enum(["html", "plaintext", "both"]);
+
+export type MailFormat = z.infer<typeof mailFormatSchema>;
+
+export const mailFormatLabels: Record<MailFormat, string> = {
+  html: "HTML",
+  plaintext: "Plain text",
+  both: "HTML + plain text",
+};
+
+const bodyFields = {
+  mailFormat: mailFormatSchema.default("html"),
+  textContent: z.string().optional(),
+};
+
+export type MessageBody = { content: string; mailFormat?: MailFormat; textContent?: string };
+
 export const singleEmailSchema = z.object({
   primaryAccountKey: z.string(),
   accountSelect: z.string(),
-  toAddress: z.string().email(),
+  toAddress: addressListField("To").refine(value => splitAddresses(value).length > 0, "At least one recipient is required"),
   subject: z.string().min(1, "Subject is required"),
   content: z.string().min(1, "Content is required"),
-});
+  ...bodyFields,
+  attachmentIds: attachmentIdsField,
+  ...messageOptionFields,
+  ...scheduleFields,
+}).superRefine(checkSchedule);
 
 export type SingleEmail = z.infer<typeof singleEmailSchema>;
 
 // Bulk email schema
+// One sender in a bulk send's rotation: a Zoho sub-account of any primary account.
+export const senderSchema = z.object({
+  accountKey: z.string(),
+  fromAddress: z.string().email(),
+  // Relative share of the recipients under the "weighted" strategy.
+  weight: z.number().int().positive().default(1),
+});
+
+export type Sender = z.infer<typeof senderSchema>;
+
+// How recipients are spread over the senders: in turn, in proportion to their weights,
+// or to whichever sender has the most of its daily quota left.
+export const rotationStrategySchema = z.enum(["round_robin", "weighted", "quota"]);
+
+export type RotationStrategy = z.infer<typeof rotationStrategySchema>;
+
 export const bulkEmailSchema = z.object({
   primaryAccountKey: z.string(),
   accountSelect: z.string(),
+  // When given, recipients rotate over these senders instead of using accountSelect alone.
+  senders: z.array(senderSchema).optional(),
+  rotation: rotationStrategySchema.optional(),
   recipients: z.string().min(1, "Recipients are required"),
   subject: z.string().min(1, "Subject is required"),
   content: z.string().min(1, "Content is required"),
-});
+  // Per-recipient merge fields from an imported CSV/TSV, keyed by lower-cased email.
+  mergeData: z.record(z.string(), z.record(z.string(), z.string())).optional(),
+  ...bodyFields,
+  attachmentIds: attachmentIdsField,
+  ...messageOptionFields,
+  // Adds a per-recipient open tracking pixel to HTML bodies. Needs PUBLIC_APP_URL.
+  trackOpens: z.boolean().optional(),
+  ...scheduleFields,
+}).superRefine(checkSchedule);
 
 export type BulkEmail = z.infer<typeof bulkEmailSchema>;
 
+// Send attempt schema. Transient failures (rate limiting, server errors, timeouts,
+// expired tokens) are retried; permanent ones are not.
+export const failureTypeSchema = z.enum(["transient", "permanent"]);
+
+export type FailureType = z.infer<typeof failureTypeSchema>;
+
+export const sendAttemptSchema = z.object({
+  attempt: z.number(),
+  at: z.string(),
+  success: z.boolean(),
+  failureType: failureTypeSchema.nullable(),
+  reason: z.string().nullable(),
+  responseCode: z.number().nullable(),
+  error: z.any().nullable(),
+});
+
+export type SendAttempt = z.infer<typeof sendAttemptSchema>;
+
+// Open tracking: every tracked recipient gets a pixel token; loading the pixel counts an
+// open and keeps the first and the latest one.
+export const openEventSchema = z.object({
+  at: z.string(),
+  userAgent: z.string().nullable(),
+  ip: z.string().nullable(),
+});
+
+export type OpenEvent = z.infer<typeof openEventSchema>;
+
+export const openTrackingSchema = z.object({
+  token: z.string(),
+  batchId: z.string(),
+  recipient: z.string(),
+  count: z.number().int(),
+  firstOpen: openEventSchema.nullable(),
+  lastOpen: openEventSchema.nullable(),
+  createdAt: z.string(),
+});
+
+export type OpenTracking = z.infer<typeof openTrackingSchema>;
+
+export const openSummarySchema = openTrackingSchema.pick({ count: true, firstOpen: true, lastOpen: true });
+
+export type OpenSummary = z.infer<typeof openSummarySchema>;
+
 // Email result schema
+// An address that was left out of a message because it is suppressed for the sending account.
+export const suppressedRecipientSchema = z.object({
+  email: z.string(),
+  field: z.enum(["to", "cc", "bcc"]),
+  reason: z.string(),
+});
+
+export type SuppressedRecipient = z.infer<typeof suppressedRecipientSchema>;
+
 export const emailResultSchema = z.object({
   recipient: z.string(),
-  status: z.enum(["Success", "Failed"]),
+  status: z.enum(["Success", "Failed", "Suppressed"]),
   messageId: z.string().nullable(),
   responseCode: z.number().nullable(),
   error: z.any().nullable(),
   fullResponse: z.any().nullable(),
+  failureType: failureTypeSchema.nullable().optional(),
+  attempts: z.array(sendAttemptSchema).optional(),
+  // The sender that handled the recipient.
+  accountKey: z.string().optional(),
+  fromAddress: z.string().optional(),
+  attachments: z.array(attachmentInfoSchema).optional(),
+  trackingToken: z.string().optional(),
+  suppressedRecipients: z.array(suppressedRecipientSchema).optional(),
+  // Filled in from the open tracking store when results are read.
+  opens: openSummarySchema.optional(),
+});
+
+export type EmailResult = z.infer<typeof emailResultSchema>;
+
+// Send log schema: one durable entry per finished send, whatever started it.
+// Entries from one bulk request or campaign share a batchId.
+export const sendSourceSchema = z.enum(["single", "bulk", "campaign"]);
+
+export type SendSource = z.infer<typeof sendSourceSchema>;
+
+// What the provider reported about a message after it was accepted.
+export const deliveryStatusSchema = z.enum(["delivered", "bounced", "complained", "failed"]);
+
+export type DeliveryStatus = z.infer<typeof deliveryStatusSchema>;
+
+export const sendLogEntrySchema = emailResultSchema.extend({
+  id: z.string(),
+  sentAt: z.string(),
+  source: sendSourceSchema,
+  batchId: z.string().nullable(),
+  accountKey: z.string(),
+  fromAddress: z.string(),
+  subject: z.string(),
+  // Set by webhook events correlated to the entry's messageId.
+  deliveryStatus: deliveryStatusSchema.optional(),
+  deliveryUpdatedAt: z.string().optional(),
+  deliveryDetail: z.string().optional(),
+});
+
+export type SendLogEntry = z.infer<typeof sendLogEntrySchema>;
+
+export type InsertSendLogEntry = Omit<SendLogEntry, 'id' | 'sentAt'>;
+
+export const sendLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+  status: emailResultSchema.shape.status.optional(),
+  source: sendSourceSchema.optional(),
+  accountKey: z.string().optional(),
+  fromAddress: z.string().optional(),
+  recipient: z.string().optional(),
+  batchId: z.string().optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+});
+
+export type SendLogQuery = z.infer<typeof sendLogQuerySchema>;
+
+export type SendLogPage = { entries: SendLogEntry[]; total: number; page: number; pageSize: number };
+
+// Campaign schema (server-side bulk send job)
+export const campaignStatusSchema = z.enum(["running", "paused", "cancelled", "completed"]);
+
+export type CampaignStatus = z.infer<typeof campaignStatusSchema>;
+
+export const campaignRecipientSchema = z.object({
+  recipient: z.string(),
+  // "sending" is saved right before the send call, so a restart can tell an interrupted
+  // send from one that never started.
+  status: z.enum(["pending", "sending", "sent", "failed", "suppressed"]),
+  fields: z.record(z.string(), z.string()).optional(),
+  result: emailResultSchema.nullable(),
+});
+
+export type CampaignRecipient = z.infer<typeof campaignRecipientSchema>;
+
+export const campaignSchema = z.object({
+  id: z.string(),
+  primaryAccountKey: z.string(),
+  accountSelect: z.string(),
+  senders: z.array(senderSchema).optional(),
+  rotation: rotationStrategySchema.optional(),
+  subject: z.string(),
+  content: z.string(),
+  mailFormat: mailFormatSchema.optional(),
+  textContent: z.string().optional(),
+  attachmentIds: z.array(z.string()).optional(),
+  ccAddress: z.string().optional(),
+  bccAddress: z.string().optional(),
+  replyTo: z.string().optional(),
+  headers: z.array(customHeaderSchema).optional(),
+  trackOpens: z.boolean().optional(),
+  status: campaignStatusSchema,
+  recipients: z.array(campaignRecipientSchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Campaign = z.infer<typeof campaignSchema>;
+
+
+// Send rate limit schema. A limit applies either to a primary account (by account_key)
+// or to a single Zoho sub-account (by its fromAddress).
+export const rateLimitSchema = z.object({
+  scope: z.enum(["account", "sender"]),
+  key: z.string().min(1, "Key is required"),
+  perMinute: z.number().int().positive().nullable(),
+  perHour: z.number().int().positive().nullable(),
+  perDay: z.number().int().positive().nullable(),
+});
+
+export type RateLimit = z.infer<typeof rateLimitSchema>;
+
+export type QuotaWindow = { limit: number | null; used: number; remaining: number | null };
+
+export type SendQuota = { minute: QuotaWindow; hour: QuotaWindow; day: QuotaWindow };
+
+
+// Suppression list schema. Entries with a null accountKey apply to every account.
+export const suppressionReasonSchema = z.enum(["hard_bounce", "unsubscribe", "complaint", "imported"]);
+
+export type SuppressionReason = z.infer<typeof suppressionReasonSchema>;
+
+export const suppressionSchema = z.object({
+  id: z.string(),
+  email: z.string().email(),
+  reason: suppressionReasonSchema,
+  accountKey: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type Suppression = z.infer<typeof suppressionSchema>;
+
+export const insertSuppressionSchema = suppressionSchema.omit({ id: true, createdAt: true }).extend({
+  accountKey: z.string().nullable().default(null),
+});
+
+export type InsertSuppression = z.infer<typeof insertSuppressionSchema>;
+
+// Saved email template schema. Every save adds a version; the last one is current.
+export const templateVersionSchema = z.object({
+  version: z.number(),
+  subject: z.string(),
+  content: z.string(),
+  createdAt: z.string(),
+});
+
+export type TemplateVersion = z.infer<typeof templateVersionSchema>;
+
+export const emailTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  versions: z.array(templateVersionSchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type EmailTemplate = z.infer<typeof emailTemplateSchema>;
+
+export const insertTemplateSchema = z.object({
+  name: z.string().min(1, "Template name is required"),
+  subject: z.string().min(1, "Subject is required"),
+  content: z.string().min(1, "Content is required"),
+});
+
+export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
+
+export const updateTemplateSchema = insertTemplateSchema.partial();
+
+export type UpdateTemplate = z.infer<typeof updateTemplateSchema>;
+
+// Scheduled send schema. Single sends are delivered directly when due; bulk sends start a campaign.
+export const scheduledJobSchema = z.object({
+  id: z.string(),
+  type: z.enum(["single", "bulk"]),
+  payload: z.union([singleEmailSchema, bulkEmailSchema]),
+  scheduledAt: z.string(),
+  timeZone: z.string(),
+  runAt: z.string(),
+  // "dispatching" is saved before the send starts, so neither a cancel nor a restart can
+  // act on a job whose mail may already be on its way.
+  status: z.enum(["scheduled", "dispatching", "dispatched", "cancelled", "failed"]),
+  campaignId: z.string().nullable(),
+  result: emailResultSchema.nullable(),
+  error: z.string().nullable(),
+  createdAt: z.string(),
+  dispatchedAt: z.string().nullable(),
+});
+
+export type ScheduledJob = z.infer<typeof scheduledJobSchema>;
+
+export const rescheduleSchema = z.object({
+  scheduledAt: z.string().min(1, "Date and time are required"),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+});
+
+// Inbox schema: messages received by the Zoho sub-accounts, read through the Mail360 messages API.
+// A mailbox is one sub-account, identified by its primary account and its Zoho account_key.
+export const inboxMessageSchema = z.object({
+  messageId: z.string(),
+  accountKey: z.string(),
+  subAccountKey: z.string(),
+  mailbox: z.string(),
+  fromAddress: z.string(),
+  sender: z.string(),
+  toAddress: z.string(),
+  subject: z.string(),
+  summary: z.string(),
+  receivedAt: z.string(),
+  read: z.boolean(),
+  hasAttachment: z.boolean(),
+});
+
+export type InboxMessage = z.infer<typeof inboxMessageSchema>;
+
+export const inboxQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+  search: z.string().optional(),
+  status: z.enum(["all", "unread"]).default("all"),
+  // Limits the inbox to one mailbox.
+  accountKey: z.string().optional(),
+  subAccountKey: z.string().optional(),
+});
+
+export type InboxQuery = z.infer<typeof inboxQuerySchema>;
+
+// Mailboxes that could not be read are listed in errors; the page holds the others' messages.
+export type InboxPage = {
+  messages: InboxMessage[];
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  errors: { mailbox: string; message: string }[];
+};
+
+export type InboxAttachment = { attachmentId: string; fileName: string; size: number };
+
+export type InboxMessageDetail = { headers: string; content: string; attachments: InboxAttachment[] };
+
+// Provider events posted to POST /api/webhooks/mail360, one at a time or as { events: [...] }.
+export const webhookEventTypeSchema = z.enum(["delivery", "bounce", "complaint", "failure"]);
+
+export type WebhookEventType = z.infer<typeof webhookEventTypeSchema>;
+
+export const mail360EventSchema = z.object({
+  event: webhookEventTypeSchema,
+  messageId: z.coerce.string().min(1, "messageId is required"),
+  // Defaults to the recipient of the correlated send.
+  recipient: z.string().email().optional(),
+  bounceType: z.enum(["hard", "soft"]).optional(),
+  statusCode: z.string().optional(),
+  reason: z.string().optional(),
+  timestamp: z.string().datetime({ offset: true }).optional(),
+});
+
+export type Mail360Event = z.infer<typeof mail360EventSchema>;
+
+export const mail360WebhookSchema = z.preprocess(
+  body => typeof body === "object" && body !== null && "events" in body ? body : { events: [body] },
+  z.object({ events: z.array(mail360EventSchema).min(1) }),
+).transform(body => body.events);
+
+// A received webhook body, kept as it arrived so it can be replayed. "unmatched" means
+// some event named a messageId that is not (yet) in the send log.
+export const webhookEventStatusSchema = z.enum(["processed", "unmatched", "invalid", "failed"]);
+
+export const webhookEventSchema = z.object({
+  id: z.string(),
+  receivedAt: z.string(),
+  payload: z.any(),
+  status: webhookEventStatusSchema,
+  error: z.string().nullable(),
+  processedAt: z.string().nullable(),
 });
 
-export type EmailResult = z.infer<typeof emailResultSchema>;
\ No newline at end of file
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;